@@ -0,0 +1,207 @@
+import http from 'node:http';
+import { AIProvider, CachedTask, InlineImage, ScriptTurn } from '../src/services/providers/types';
+import { VoiceOption } from '../src/types';
+import { RateLimiter } from './rateLimiter';
+
+export interface ProxyServerOptions {
+  maxBodyBytes: number;
+  requestsPerMinute: number;
+  allowedOrigin: string; // Value for Access-Control-Allow-Origin
+  trustProxy: boolean; // Identify clients by X-Forwarded-For (only behind a trusted reverse proxy)
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const VOICES: VoiceOption[] = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
+
+// How long a health check's result is reused. Checking calls the upstream API, which spends the operator's quota.
+const HEALTH_CACHE_MS = 60_000;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isInlineImage = (value: unknown): value is InlineImage =>
+  isObject(value) && typeof value.data === 'string' && typeof value.mimeType === 'string';
+
+const isScriptTurn = (value: unknown): value is ScriptTurn =>
+  isObject(value) &&
+  (value.role === 'user' || value.role === 'model') &&
+  typeof value.text === 'string' &&
+  (value.images === undefined || (Array.isArray(value.images) && value.images.every(isInlineImage)));
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isPositiveInteger = (value: unknown): value is number => isPositiveNumber(value) && Number.isInteger(value);
+
+const isVoice = (value: unknown): value is VoiceOption => VOICES.some(voice => voice === value);
+
+const badRequest = (message: string) => new HttpError(400, message);
+
+type RouteHandler = (provider: AIProvider, body: Record<string, unknown>) => Promise<unknown>;
+
+// One endpoint per AIProvider call. Each validates its payload before forwarding it.
+const routes: Record<string, RouteHandler> = {
+  '/api/script': async (provider, body) => {
+    if (!Array.isArray(body.history) || !body.history.every(isScriptTurn) || !isScriptTurn(body.message)) {
+      throw badRequest('Expected { history: ScriptTurn[], message: ScriptTurn }.');
+    }
+    return { text: await provider.continueScript(body.history, body.message) };
+  },
+  '/api/voiceover': async (provider, body) => {
+    if (typeof body.text !== 'string' || !body.text.trim() || !isVoice(body.voice)) {
+      throw badRequest('Expected { text: string, voice: VoiceOption }.');
+    }
+    const pcm = await provider.synthesizeSpeech(body.text, body.voice);
+    return { audio: Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength).toString('base64') };
+  },
+  '/api/timings': async (provider, body) => {
+    if (typeof body.script !== 'string' || !isPositiveInteger(body.panelCount) || !isPositiveNumber(body.audioDuration)) {
+      throw badRequest('Expected { script: string, panelCount: integer, audioDuration: number }.');
+    }
+    return { timings: await provider.generateTimings(body.script, body.panelCount, body.audioDuration) };
+  },
+  '/api/inpaint': async (provider, body) => {
+    if (!isInlineImage(body.image)) {
+      throw badRequest('Expected { image: { data, mimeType } }.');
+    }
+    return { image: await provider.inpaintImage(body.image) };
+  },
+  '/api/inpaint-region': async (provider, body) => {
+    if (!isInlineImage(body.image) || !isInlineImage(body.mask)) {
+      throw badRequest('Expected { image: { data, mimeType }, mask: { data, mimeType } }.');
+    }
+    return { image: await provider.inpaintRegion(body.image, body.mask) };
+  },
+  '/api/crops': async (provider, body) => {
+    if (!isInlineImage(body.image) || !isPositiveNumber(body.width) || !isPositiveNumber(body.height)) {
+      throw badRequest('Expected { image: { data, mimeType }, width: number, height: number }.');
+    }
+    return { crops: await provider.detectSubjectCrops(body.image, body.width, body.height) };
+  },
+};
+
+const readJsonBody = (req: http.IncomingMessage, maxBytes: number): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > maxBytes) {
+      reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(badRequest('Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const getClientId = (req: http.IncomingMessage, trustProxy: boolean): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Errors from the upstream SDK carry an HTTP status; pass rate limits through and map the rest to 502.
+const toHttpError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const status = isObject(error) && typeof error.status === 'number' ? error.status : undefined;
+  if (status === 429) return new HttpError(429, message);
+  return new HttpError(502, `Upstream provider failed: ${message}`);
+};
+
+export function createProxyServer(provider: AIProvider, options: ProxyServerOptions): http.Server {
+  const limiter = new RateLimiter(options.requestsPerMinute);
+  const pruneTimer = setInterval(() => limiter.prune(), 60_000);
+  pruneTimer.unref();
+
+  // Concurrent and repeated checks share one validation; a failed one is retried on the next check.
+  let health: { checkedAt: number, problems: Promise<string[]> } | null = null;
+  const checkHealth = (): Promise<string[]> => {
+    if (!health || Date.now() - health.checkedAt > HEALTH_CACHE_MS) {
+      const problems = provider.validateConfig();
+      health = { checkedAt: Date.now(), problems };
+      problems.catch(() => { health = null; });
+    }
+    return health.problems;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(payload));
+    };
+
+    res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // The front-end runs cross-origin isolated (for ffmpeg.wasm), so responses must opt in to being embedded.
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      if (req.method === 'GET' && path === '/api/health') {
+        const problems = await checkHealth();
+        // Lets clients tell results cached from this server's current models and prompts apart from older ones.
+        const cacheTags: Record<CachedTask, string> = {
+          inpaint: await provider.cacheTag('inpaint'),
+          crops: await provider.cacheTag('crops'),
+        };
+        send(200, { ok: problems.length === 0, provider: provider.name, problems, cacheTags });
+        return;
+      }
+
+      const route = routes[path];
+      if (!route) throw new HttpError(404, `No route for ${path}.`);
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+
+      const retryAfter = limiter.take(getClientId(req, options.trustProxy));
+      if (retryAfter > 0) {
+        throw new HttpError(429, 'Too many requests. Please slow down.', { 'Retry-After': String(retryAfter) });
+      }
+
+      const body = await readJsonBody(req, options.maxBodyBytes);
+      if (!isObject(body)) throw badRequest('Request body must be a JSON object.');
+      send(200, await route(provider, body));
+    } catch (error) {
+      const httpError = toHttpError(error);
+      if (httpError.status >= 500) {
+        console.error(`[proxy] ${req.method} ${path} failed:`, error);
+      }
+      if (!res.headersSent) {
+        send(httpError.status, { error: httpError.message }, httpError.headers);
+      }
+    }
+  });
+
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+}
@@ -0,0 +1,50 @@
+import { createProxyServer } from './app';
+import { createGeminiProvider } from '../src/services/providers/geminiProvider';
+import { createMockProvider } from '../src/services/providers/mockProvider';
+import { AIProvider } from '../src/services/providers/types';
+
+// Configuration, all from the environment:
+//   PORT                     Port to listen on (default 8787)
+//   UPSTREAM                 'gemini' (default) or 'mock'
+//   GEMINI_API_KEY           Required for the gemini upstream
+//   GEMINI_BASE_URL          Optional Gemini endpoint override, e.g. the local stub (npm run server:stub)
+//   GEMINI_MODEL_SCRIPT, GEMINI_MODEL_SPEECH, GEMINI_MODEL_TIMINGS, GEMINI_MODEL_INPAINT, GEMINI_MODEL_CROPS
+//   RATE_LIMIT_PER_MINUTE    Requests per client per minute (default 30)
+//   MAX_BODY_MB              Largest accepted request body (default 25)
+//   ALLOWED_ORIGIN           CORS origin of the front-end (default *)
+//   TRUST_PROXY              Set to 1 behind a reverse proxy to rate limit by X-Forwarded-For
+const env = process.env;
+
+const createUpstream = (): AIProvider => {
+  if (env.UPSTREAM === 'mock') {
+    return createMockProvider();
+  }
+  if (!env.GEMINI_API_KEY) {
+    console.error('GEMINI_API_KEY is required (or set UPSTREAM=mock).');
+    process.exit(1);
+  }
+  return createGeminiProvider({
+    apiKey: env.GEMINI_API_KEY,
+    baseUrl: env.GEMINI_BASE_URL,
+    models: {
+      ...(env.GEMINI_MODEL_SCRIPT && { script: env.GEMINI_MODEL_SCRIPT }),
+      ...(env.GEMINI_MODEL_SPEECH && { speech: env.GEMINI_MODEL_SPEECH }),
+      ...(env.GEMINI_MODEL_TIMINGS && { timings: env.GEMINI_MODEL_TIMINGS }),
+      ...(env.GEMINI_MODEL_INPAINT && { inpaint: env.GEMINI_MODEL_INPAINT }),
+      ...(env.GEMINI_MODEL_CROPS && { crops: env.GEMINI_MODEL_CROPS }),
+    },
+  });
+};
+
+const port = Number(env.PORT ?? 8787);
+const provider = createUpstream();
+const server = createProxyServer(provider, {
+  maxBodyBytes: Number(env.MAX_BODY_MB ?? 25) * 1024 * 1024,
+  requestsPerMinute: Number(env.RATE_LIMIT_PER_MINUTE ?? 30),
+  allowedOrigin: env.ALLOWED_ORIGIN ?? '*',
+  trustProxy: env.TRUST_PROXY === '1',
+});
+
+server.listen(port, () => {
+  console.log(`AI proxy listening on http://localhost:${port} (upstream: ${provider.name})`);
+});
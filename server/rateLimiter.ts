@@ -0,0 +1,38 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Per-client token bucket: each client may burst up to `requestsPerMinute` requests,
+// refilled continuously at the same rate.
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private refillPerMs: number;
+
+  constructor(private requestsPerMinute: number) {
+    this.refillPerMs = requestsPerMinute / 60_000;
+  }
+
+  // Takes a token for the client. Returns 0 when allowed, otherwise the seconds to wait.
+  take(clientId: string, now: number = Date.now()): number {
+    const bucket = this.buckets.get(clientId) ?? { tokens: this.requestsPerMinute, updatedAt: now };
+    bucket.tokens = Math.min(this.requestsPerMinute, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(clientId, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / this.refillPerMs / 1000);
+  }
+
+  // Forgets clients whose buckets have refilled completely, to bound memory.
+  prune(now: number = Date.now()) {
+    for (const [clientId, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.requestsPerMinute) {
+        this.buckets.delete(clientId);
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import http from 'node:http';
+
+// A minimal stand-in for the Gemini REST API, for testing the proxy without a real key:
+//   npm run server:stub
+//   GEMINI_API_KEY=stub GEMINI_BASE_URL=http://localhost:8788 npm run server
+// It answers generateContent with canned responses shaped like the real ones and logs every call.
+const port = Number(process.env.STUB_PORT ?? 8788);
+
+const ONE_SECOND_OF_SILENCE = Buffer.alloc(24000 * 2).toString('base64');
+
+// The parts of the Gemini request format the stub reads.
+interface Part {
+  text?: string;
+  inlineData?: { mimeType: string, data: string };
+}
+
+interface Content {
+  parts?: Part[];
+}
+
+interface GenerateContentRequest {
+  contents?: Content | Content[];
+  generationConfig?: {
+    responseModalities?: string[];
+    responseSchema?: { items?: { properties?: Record<string, unknown> } };
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const findInlineImage = (contents: Content[]): Part['inlineData'] =>
+  contents.flatMap(content => content.parts ?? []).find(part => part.inlineData)?.inlineData;
+
+const findPromptText = (contents: Content[]): string =>
+  contents.flatMap(content => content.parts ?? []).map(part => part.text ?? '').join('\n');
+
+const respondToGenerateContent = (request: GenerateContentRequest) => {
+  const contents: Content[] = Array.isArray(request.contents) ? request.contents : request.contents ? [request.contents] : [];
+  const config = request.generationConfig ?? {};
+  const modalities: string[] = config.responseModalities ?? [];
+  const schemaProperties = config.responseSchema?.items?.properties ?? {};
+
+  let parts: Part[];
+  if (modalities.includes('AUDIO')) {
+    parts = [{ inlineData: { mimeType: 'audio/L16;codec=pcm;rate=24000', data: ONE_SECOND_OF_SILENCE } }];
+  } else if (modalities.includes('IMAGE')) {
+    // "Inpainting" returns the input image unchanged.
+    parts = [{ inlineData: findInlineImage(contents) }];
+  } else if ('panel' in schemaProperties) {
+    const prompt = findPromptText(contents);
+    const panelCount = Number(/Total panels: (\d+)/.exec(prompt)?.[1] ?? 1);
+    const duration = Number(/Total audio duration: ([\d.]+)/.exec(prompt)?.[1] ?? 1);
+    const timings = Array.from({ length: panelCount }, (_, i) => ({ panel: i + 1, startTime: (duration / panelCount) * i }));
+    parts = [{ text: JSON.stringify(timings) }];
+  } else if ('x' in schemaProperties) {
+    parts = [{ text: JSON.stringify([{ x: 0, y: 0, w: 100, h: 100 }]) }];
+  } else {
+    parts = [{ text: 'Stub narration for the submitted panels.' }];
+  }
+
+  return { candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }] };
+};
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    console.log(`[stub] ${req.method} ${path}`);
+    res.setHeader('Content-Type', 'application/json');
+
+    const generateMatch = /\/models\/([^/:]+):generateContent$/.exec(path);
+    const modelMatch = /\/models\/([^/:]+)$/.exec(path);
+    if (req.method === 'POST' && generateMatch) {
+      // A malformed request gets a 400 like the real API instead of crashing the stub.
+      try {
+        const request: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (!isObject(request)) throw new Error('Request body is not a JSON object.');
+        res.end(JSON.stringify(respondToGenerateContent(request as GenerateContentRequest)));
+      } catch (error) {
+        res.statusCode = 400;
+        const message = error instanceof Error ? error.message : 'Invalid request.';
+        res.end(JSON.stringify({ error: { code: 400, message, status: 'INVALID_ARGUMENT' } }));
+      }
+    } else if (req.method === 'GET' && modelMatch) {
+      res.end(JSON.stringify({ name: `models/${modelMatch[1]}`, displayName: modelMatch[1] }));
+    } else {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: { code: 404, message: `Stub has no route for ${path}`, status: 'NOT_FOUND' } }));
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Gemini stub upstream listening on http://localhost:${port}`);
+});
@@ -1,31 +1,198 @@
 
-import React, { useState, useCallback } from 'react';
-import { ManhwaPanel, VoiceOption, EditedClip } from './types';
-import { generateScript, generateVoiceover, generateTimings } from './services/geminiService';
-import { animatePanels } from './services/animationService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { ManhwaPanel, VoiceOption, EditedClip, VideoSettings, PanelTiming, VoiceoverChunk, ScriptBatch, TextRemovalMode } from './types';
+import {
+  createScriptBatches,
+  canResumeScriptBatches,
+  generateScript,
+  generateScriptBatch,
+  generateTimings,
+  prepareVoiceoverChunks,
+  synthesizeVoiceoverChunks,
+  synthesizeVoiceoverChunk,
+  stitchVoiceover,
+  computeSegmentTimings,
+  DEFAULT_CHUNK_PAUSE_SECONDS,
+} from './services/geminiService';
+import { formatScriptSegments, parseScriptSegments, replacePanelRangeSegments } from './utils/scriptUtils';
+import { sanitizeTimings, TimingOptions, DEFAULT_TIMING_OPTIONS } from './utils/timingUtils';
+import { animatePanels, PanelFailure } from './services/animationService';
+import { DEFAULT_VIDEO_SETTINGS } from './services/videoService';
+import { loadProject, saveProject, clearProject, ProjectSnapshot } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { AISettings, loadAISettings, saveAISettings, getSettingsProblems } from './services/settingsService';
+import { configureAIProvider } from './services/providers';
+import { isAbortError } from './utils/asyncUtils';
 import Stepper from './components/Stepper';
 import ImagePanel from './components/ImagePanel';
 import ScriptPanel from './components/ScriptPanel';
 import VoiceoverPanel from './components/VoiceoverPanel';
+import ReviewPanel from './components/ReviewPanel';
 import CropPanel from './components/CropPanel';
 import PreviewPanel from './components/PreviewPanel';
 import Spinner from './components/Spinner';
+import SettingsPanel from './components/SettingsPanel';
+import { DownloadIcon, FolderOpenIcon, CogIcon } from './components/icons';
+
+// Wait for edits to settle before writing the project to IndexedDB.
+const AUTOSAVE_DELAY_MS = 1000;
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
 const App: React.FC = () => {
   const [step, setStep] = useState(1);
   const [panels, setPanels] = useState<ManhwaPanel[]>([]);
   const [script, setScript] = useState<string>('');
+  const [scriptBatches, setScriptBatches] = useState<ScriptBatch[]>([]);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [editedClips, setEditedClips] = useState<EditedClip[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  // Set while a cancellable operation runs; the spinner's Cancel button aborts it.
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isCancellable, setIsCancellable] = useState<boolean>(false);
   const [language, setLanguage] = useState<string>('English');
+  const [voice, setVoice] = useState<VoiceOption>('Kore');
+  const [timings, setTimings] = useState<PanelTiming[]>([]);
+  const [voiceoverChunks, setVoiceoverChunks] = useState<VoiceoverChunk[]>([]);
+  const [chunkPause, setChunkPause] = useState<number>(DEFAULT_CHUNK_PAUSE_SECONDS);
+  const [timingOptions, setTimingOptions] = useState<TimingOptions>(DEFAULT_TIMING_OPTIONS);
+  const [timingRepairs, setTimingRepairs] = useState<string[]>([]);
+  const [panelFailures, setPanelFailures] = useState<PanelFailure[]>([]);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
+  const [textRemoval, setTextRemoval] = useState<TextRemovalMode>('ai');
+  const [isRestoring, setIsRestoring] = useState<boolean>(true);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [settingsNotice, setSettingsNotice] = useState<string | undefined>(undefined);
+
+  const openSettings = (notice?: string) => {
+    setSettingsNotice(notice);
+    setIsSettingsOpen(true);
+  };
+
+  const handleSaveSettings = (settings: AISettings) => {
+    saveAISettings(settings);
+    configureAIProvider(settings);
+    setAISettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  // Checks the AI configuration before a run; opens the settings if something is missing.
+  const ensureAIConfigured = useCallback((): boolean => {
+    const problems = getSettingsProblems(aiSettings);
+    if (problems.length > 0) {
+      openSettings(`Please fix your AI settings before continuing: ${problems.join(' ')}`);
+      return false;
+    }
+    return true;
+  }, [aiSettings]);
+
+  const applySnapshot = (snapshot: ProjectSnapshot) => {
+    setPanels(snapshot.panels);
+    setScript(snapshot.script);
+    setScriptBatches([]);
+    setLanguage(snapshot.language);
+    setVoice(snapshot.voice);
+    setAudioBlob(snapshot.audioBlob);
+    setTimings(snapshot.timings);
+    setVoiceoverChunks([]);
+    setTimingRepairs([]);
+    setPanelFailures([]);
+    setEditedClips(snapshot.editedClips);
+    setVideoSettings(snapshot.videoSettings);
+    setTextRemoval(snapshot.textRemoval);
+    setStep(snapshot.step);
+  };
+
+  // Restore the autosaved session, if any, before autosave starts writing.
+  useEffect(() => {
+    let cancelled = false;
+    loadProject()
+      .then(snapshot => {
+        if (cancelled || !snapshot || snapshot.panels.length === 0) return;
+        applySnapshot(snapshot);
+        setSaveStatus('saved');
+      })
+      .catch(error => console.error("Could not restore the saved project:", error))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    const timeout = window.setTimeout(() => {
+      setSaveStatus('saving');
+      saveProject({ step, panels, script, language, voice, audioBlob, timings, editedClips, videoSettings, textRemoval })
+        .then(() => setSaveStatus('saved'))
+        .catch(error => {
+          console.error("Autosave failed:", error);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [isRestoring, step, panels, script, language, voice, audioBlob, timings, editedClips, videoSettings, textRemoval]);
+
+  const handleExportProject = async () => {
+    setIsLoading(true);
+    setLoadingMessage('Packing project bundle...');
+    try {
+      const bundle = await exportProjectBundle({ step, panels, script, language, voice, audioBlob, timings, editedClips, videoSettings, textRemoval });
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'manhwa-video-project.zip';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting project:", error);
+      alert("Failed to export the project. Please check the console for details.");
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-opening the same file
+    if (!file) return;
+    if (panels.length > 0 && !window.confirm("Opening a project replaces your current work. Continue?")) return;
+
+    setIsLoading(true);
+    setLoadingMessage('Opening project bundle...');
+    try {
+      const snapshot = await importProjectBundle(file);
+      panels.forEach(panel => URL.revokeObjectURL(panel.preview));
+      applySnapshot(snapshot);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      console.error("Error opening project:", error);
+      alert(`Failed to open the project: ${errorMessage}`);
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
 
   const handlePanelsChange = (newPanels: ManhwaPanel[]) => {
     setPanels(newPanels);
     // When panels change, invalidate all subsequent steps.
     setScript('');
+    setScriptBatches([]);
     setAudioBlob(null);
+    setTimings([]);
+    setVoiceoverChunks([]);
+    setTimingRepairs([]);
+    setPanelFailures([]);
     setEditedClips([]);
   };
   
@@ -37,69 +204,200 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateScript = useCallback(async (selectedLanguage: string) => {
-    if (panels.length === 0) return;
+  const startCancellableTask = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsCancellable(true);
+    return controller.signal;
+  };
+
+  const endCancellableTask = () => {
+    abortControllerRef.current = null;
+    setIsCancellable(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setIsCancellable(false);
+    setLoadingMessage('Cancelling...');
+  };
+
+  const updateScriptBatch = (index: number, batch: ScriptBatch) => {
+    setScriptBatches(prev => prev.map((b, i) => (i === index ? batch : b)));
+  };
+
+  // Writes the script batch by batch. With `resume`, batches finished by an earlier run are kept and the rest are
+  // written into the current script, so a run that failed part way continues from the failed batch.
+  const runScriptGeneration = useCallback(async (selectedLanguage: string, resume: boolean) => {
+    if (panels.length === 0 || !ensureAIConfigured()) return;
+    const isResuming = resume && canResumeScriptBatches(scriptBatches, panels, selectedLanguage);
+    const batches = isResuming ? scriptBatches : createScriptBatches(panels, selectedLanguage);
+    setScriptBatches(batches);
+    const signal = startCancellableTask();
     setIsLoading(true);
     setLoadingMessage('Initializing script generation...');
+
+    let segments = isResuming ? parseScriptSegments(script) ?? batches.flatMap(batch => batch.segments ?? []) : [];
+    let hasNewSegments = false;
+    let failedBatch: ScriptBatch | undefined;
     try {
-      const generatedScript = await generateScript(panels, (message) => {
-        setLoadingMessage(message);
-      }, selectedLanguage);
-      setScript(generatedScript);
+      await generateScript(panels, batches, setLoadingMessage, (index, batch) => {
+        updateScriptBatch(index, batch);
+        if (batch.status === 'failed') failedBatch = batch;
+        if (batch.status === 'done' && batch.segments) {
+          segments = replacePanelRangeSegments(segments, batch.start, batch.end, batch.segments);
+          hasNewSegments = true;
+        }
+      }, signal);
+      setScript(formatScriptSegments(segments));
       setStep(3);
     } catch (error) {
+      // Keep what was written before the failure or cancel.
+      if (hasNewSegments) setScript(formatScriptSegments(segments));
+      if (isAbortError(error)) {
+        // Without any script, the script step would immediately start generating again.
+        if (!hasNewSegments && !script) {
+          setScriptBatches([]);
+          setStep(1);
+        }
+        return;
+      }
       console.error("Error generating script:", error);
-      alert("Failed to generate script. Please check the console for details.");
+      alert(failedBatch
+        ? `Failed to write the script for panels ${failedBatch.start} to ${failedBatch.end}. Everything written so far has been kept; use Resume to continue from there.`
+        : "Failed to generate script. Please check the console for details.");
     } finally {
+      endCancellableTask();
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [panels]);
+  }, [panels, script, scriptBatches, ensureAIConfigured]);
+
+  const handleGenerateScript = useCallback(
+    (selectedLanguage: string) => runScriptGeneration(selectedLanguage, false),
+    [runScriptGeneration]
+  );
+
+  const handleResumeScript = () => {
+    if (scriptBatches.length === 0) return;
+    runScriptGeneration(scriptBatches[0].language, true);
+  };
+
+  // Rewrites the narration of one batch's panels, leaving the rest of the script as it is.
+  const handleRegenerateScriptBatch = async (index: number) => {
+    const batch = scriptBatches[index];
+    if (!batch || !ensureAIConfigured()) return;
+    const segments = parseScriptSegments(script);
+    if (!segments) {
+      alert("Add panel markers to the script before regenerating part of it.");
+      return;
+    }
+    const signal = startCancellableTask();
+    setIsLoading(true);
+    try {
+      const result = await generateScriptBatch(panels, scriptBatches, index, setLoadingMessage, signal);
+      updateScriptBatch(index, result);
+      setScript(formatScriptSegments(replacePanelRangeSegments(segments, result.start, result.end, result.segments ?? [])));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error regenerating script batch:", error);
+      alert(`Failed to rewrite the script for panels ${batch.start} to ${batch.end}. Please check the console for details.`);
+    } finally {
+      endCancellableTask();
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  const updateVoiceoverChunk = (index: number, chunk: VoiceoverChunk) => {
+    setVoiceoverChunks(prev => prev.map((c, i) => (i === index ? chunk : c)));
+  };
+
+  // Stitches the finished chunks, then times and edits the panels against the final audio.
+  // If cancelled, the audio and timings are kept and panels already edited stay cached, so generating again resumes quickly.
+  const finishVoiceover = async (chunks: VoiceoverChunk[], signal?: AbortSignal) => {
+    setLoadingMessage('Stitching voiceover...');
+    const { audioBlob: blob, duration, chunkStartTimes } = await stitchVoiceover(chunks, chunkPause);
+    setAudioBlob(blob);
+
+    // Segmented scripts are timed from the measured audio; free-form scripts fall back to the timing model.
+    const segments = parseScriptSegments(script);
+    setLoadingMessage('Synchronizing audio and images...');
+    const rawTimings = segments
+      ? computeSegmentTimings(segments, chunks, chunkStartTimes, panels.length)
+      : await generateTimings(script, panels.length, duration, signal);
+    const { timings, repairs } = sanitizeTimings(rawTimings, panels.length, duration, timingOptions);
+    if (repairs.length > 0) {
+      console.warn("Repaired panel timings:", repairs);
+    }
+    setTimings(timings);
+    setTimingRepairs(repairs);
+
+    setLoadingMessage('Performing AI video edits...');
+    const { clips, failures } = await animatePanels(
+      panels,
+      timings,
+      duration,
+      (msg) => setLoadingMessage(`Performing AI video edits... (${msg})`),
+      aiSettings.maxConcurrentRequests,
+      textRemoval,
+      signal
+    );
+    setEditedClips(clips);
+    setPanelFailures(failures);
+    setStep(4); // Review the text removal before adjusting crops
+  };
 
-  const handleGenerateVoiceover = useCallback(async (voice: VoiceOption) => {
-    if (!script) return;
+  const handleGenerateVoiceover = async (voice: VoiceOption) => {
+    if (!script || !ensureAIConfigured()) return;
+    const invalidPanels = (parseScriptSegments(script) ?? []).filter(segment => segment.panel < 1 || segment.panel > panels.length);
+    if (invalidPanels.length > 0) {
+      alert(`The script refers to panel ${invalidPanels[0].panel}, but there are only ${panels.length} panels. Please fix the [Panel N] markers.`);
+      return;
+    }
+    // Chunks that already have audio for the same text and voice are kept, so this also resumes a failed run.
+    const chunks = prepareVoiceoverChunks(script, voice, voiceoverChunks);
+    setVoiceoverChunks(chunks);
+    const signal = startCancellableTask();
     setIsLoading(true);
-    setLoadingMessage('Generating voiceover... This may take a moment.');
+
+    let doneCount = chunks.filter(chunk => chunk.status === 'done').length;
+    const reportProgress = () => setLoadingMessage(`Generating voiceover... (${doneCount}/${chunks.length} parts done)`);
+    reportProgress();
     try {
-      const { audioBlob: blob, audioUrl: url } = await generateVoiceover(script, voice);
-      setAudioBlob(blob);
-
-      setLoadingMessage('Synchronizing audio and images...');
-      const audio = new Audio(url);
-      audio.onloadedmetadata = async () => {
-        // Revoke the object URL once we have the duration to prevent memory leaks
-        URL.revokeObjectURL(url);
-        try {
-          const duration = audio.duration;
-          const timings = await generateTimings(script, panels.length, duration);
-          
-          setLoadingMessage('Performing AI video edits...');
-          const clips = await animatePanels(panels, timings, duration, (msg) => setLoadingMessage(`Performing AI video edits... (${msg})`));
-          setEditedClips(clips);
-          setStep(4); // Move to the new CropPanel step
-
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            console.error("Error during post-voiceover processing:", err);
-            alert(`An error occurred: ${errorMessage}`);
-        } finally {
-            setIsLoading(false);
-            setLoadingMessage('');
+      const results = await synthesizeVoiceoverChunks(chunks, (index, chunk) => {
+        updateVoiceoverChunk(index, chunk);
+        if (chunk.status === 'done') {
+          doneCount++;
+          reportProgress();
         }
-      };
-      audio.onerror = () => {
-        URL.revokeObjectURL(url);
-        setIsLoading(false);
-        alert("Could not load audio metadata.");
-      }
+      }, aiSettings.maxConcurrentRequests, signal);
 
+      const failedCount = results.filter(chunk => chunk.status === 'failed').length;
+      if (failedCount > 0) {
+        alert(`${failedCount} of ${results.length} voiceover parts failed. Retry them individually, or generate again to retry all failed parts.`);
+        return;
+      }
+      await finishVoiceover(results, signal);
     } catch (error) {
+      // Finished parts keep their audio, so generating again resumes the voiceover.
+      if (isAbortError(error)) return;
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
       console.error("Error generating voiceover:", error);
-      alert("Failed to generate voiceover. Please check the console for details.");
+      alert(`An error occurred: ${errorMessage}`);
+    } finally {
+      endCancellableTask();
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [script, panels]);
+  };
+
+  const handleRetryVoiceoverChunk = async (index: number) => {
+    const chunk = voiceoverChunks[index];
+    if (!chunk || !ensureAIConfigured()) return;
+    updateVoiceoverChunk(index, { ...chunk, status: 'synthesizing', error: undefined });
+    updateVoiceoverChunk(index, await synthesizeVoiceoverChunk(chunk));
+  };
   
   const handleBack = () => {
     if (step > 1) {
@@ -107,16 +405,26 @@ const App: React.FC = () => {
     }
   };
 
-  const handleNextFromCrop = () => {
+  const handleNextFromReview = () => {
     setStep(5);
+  };
+
+  const handleNextFromCrop = () => {
+    setStep(6);
   }
   
   const handleReset = () => {
     setStep(1);
     setPanels([]);
     setScript('');
+    setScriptBatches([]);
     setAudioBlob(null);
+    setTimings([]);
+    setVoiceoverChunks([]);
+    setTimingRepairs([]);
+    setPanelFailures([]);
     setEditedClips([]);
+    clearProject().catch(error => console.error("Could not clear the saved project:", error));
   };
   
   const renderStepContent = () => {
@@ -124,13 +432,31 @@ const App: React.FC = () => {
       case 1:
         return <ImagePanel panels={panels} onPanelsChange={handlePanelsChange} onNext={handleNextToScript} />;
       case 2:
-        return <ScriptPanel script={script} setScript={setScript} onGenerate={handleGenerateScript} onBack={handleBack} language={language} setLanguage={setLanguage} />;
+        return <ScriptPanel script={script} setScript={setScript} panels={panels} scriptBatches={scriptBatches} onGenerate={handleGenerateScript} onResume={handleResumeScript} onRegenerateBatch={handleRegenerateScriptBatch} onBack={handleBack} language={language} setLanguage={setLanguage} />;
       case 3:
-        return <VoiceoverPanel script={script} onGenerate={handleGenerateVoiceover} onBack={handleBack} />;
+        return (
+          <VoiceoverPanel
+            script={script}
+            voice={voice}
+            onVoiceChange={setVoice}
+            chunks={voiceoverChunks}
+            chunkPause={chunkPause}
+            onChunkPauseChange={setChunkPause}
+            timingOptions={timingOptions}
+            onTimingOptionsChange={setTimingOptions}
+            textRemoval={textRemoval}
+            onTextRemovalChange={setTextRemoval}
+            onRetryChunk={handleRetryVoiceoverChunk}
+            onGenerate={handleGenerateVoiceover}
+            onBack={handleBack}
+          />
+        );
       case 4:
-        return <CropPanel clips={editedClips} onClipsChange={setEditedClips} onBack={handleBack} onNext={handleNextFromCrop} />;
+        return <ReviewPanel clips={editedClips} panels={panels} textRemoval={textRemoval} onClipsChange={setEditedClips} onBack={handleBack} onNext={handleNextFromReview} />;
       case 5:
-        return <PreviewPanel editedClips={editedClips} audioBlob={audioBlob} onReset={handleReset} />;
+        return <CropPanel clips={editedClips} panels={panels} audioBlob={audioBlob} timingRepairs={timingRepairs} onDismissTimingRepairs={() => setTimingRepairs([])} panelFailures={panelFailures} onDismissPanelFailures={() => setPanelFailures([])} textRemoval={textRemoval} videoSettings={videoSettings} onVideoSettingsChange={setVideoSettings} onClipsChange={setEditedClips} onBack={handleBack} onNext={handleNextFromCrop} />;
+      case 6:
+        return <PreviewPanel editedClips={editedClips} audioBlob={audioBlob} videoSettings={videoSettings} onVideoSettingsChange={setVideoSettings} onReset={handleReset} />;
       default:
         return null;
     }
@@ -138,7 +464,11 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 lg:p-8">
-      {isLoading && <Spinner message={loadingMessage} />}
+      {isLoading && <Spinner message={loadingMessage} onCancel={isCancellable ? handleCancel : undefined} />}
+      {isRestoring && <Spinner message="Restoring your last session..." />}
+      {isSettingsOpen && (
+        <SettingsPanel settings={aiSettings} notice={settingsNotice} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
       <div className="w-full max-w-6xl mx-auto">
         <header className="text-center mb-8">
           <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">
@@ -147,6 +477,38 @@ const App: React.FC = () => {
           <p className="mt-2 text-lg text-gray-400">
             Turn your favorite manhwa panels into stunning explanation videos with AI.
           </p>
+          {saveStatus !== 'idle' && (
+            <p className={`mt-1 text-xs ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
+              {saveStatus === 'saving' && 'Saving...'}
+              {saveStatus === 'saved' && 'All changes saved in this browser'}
+              {saveStatus === 'error' && 'Autosave failed. Check the console for details.'}
+            </p>
+          )}
+          <div className="mt-4 flex justify-center gap-3">
+            <button
+              onClick={() => projectInputRef.current?.click()}
+              className="px-4 py-2 bg-gray-700 text-sm text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2"
+            >
+              <FolderOpenIcon className="w-4 h-4" />
+              Open Project
+            </button>
+            <button
+              onClick={handleExportProject}
+              disabled={panels.length === 0}
+              className="px-4 py-2 bg-gray-700 text-sm text-white font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              Export Project
+            </button>
+            <button
+              onClick={() => openSettings()}
+              className="px-4 py-2 bg-gray-700 text-sm text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-2"
+            >
+              <CogIcon className="w-4 h-4" />
+              AI Settings
+            </button>
+            <input ref={projectInputRef} type="file" accept=".zip,application/zip" onChange={handleOpenProject} className="hidden" />
+          </div>
         </header>
 
         <main className="bg-gray-800/50 backdrop-blur-sm rounded-2xl shadow-2xl shadow-purple-500/10 p-6 sm:p-8 border border-gray-700">
@@ -1,17 +1,37 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { EditedClip, CropRect } from '../types';
+import { EditedClip, CropRect, ManhwaPanel, TextRemovalMode, CameraKeyframe, EasingOption, CropLayoutOption, ShotTransitionOption, VideoSettings } from '../types';
 import { BackIcon } from './icons';
+import TimelineEditor from './TimelineEditor';
+import MaskEditor from './MaskEditor';
+import LayoutPreview from './LayoutPreview';
+import { setPanelImageInClips } from '../utils/timelineUtils';
+import { CAMERA_PRESETS, EASING_OPTIONS, createKeyframe, interpolateCamera, normalizeKeyframes } from '../utils/cameraUtils';
+import { LAYOUT_OPTIONS, getAspectRatioValue, getClipLayout, getCropAspectRatios, getShotDurations } from '../utils/layoutUtils';
+import { RESIZE_HANDLES, ResizeHandle, createCrop, lockCropToAspect, moveRect, resizeRect, roundRect } from '../utils/cropUtils';
+import { PanelFailure } from '../services/animationService';
 
 interface CropPanelProps {
   clips: EditedClip[];
+  panels: ManhwaPanel[];
+  audioBlob: Blob | null;
+  timingRepairs: string[]; // Fixes made to the generated timings, shown until dismissed
+  onDismissTimingRepairs: () => void;
+  panelFailures: PanelFailure[]; // Panels whose text removal failed and that use a fallback instead
+  textRemoval: TextRemovalMode;
+  videoSettings: VideoSettings; // For the project's default layout and the output aspect ratio
+  onVideoSettingsChange: (settings: VideoSettings) => void;
+  onDismissPanelFailures: () => void;
   onClipsChange: (clips: EditedClip[]) => void;
   onBack: () => void;
   onNext: () => void;
 }
 
-const CropPanel: React.FC<CropPanelProps> = ({ clips, onClipsChange, onBack, onNext }) => {
+const CropPanel: React.FC<CropPanelProps> = ({ clips, panels, audioBlob, timingRepairs, onDismissTimingRepairs, panelFailures, onDismissPanelFailures, textRemoval, videoSettings, onVideoSettingsChange, onClipsChange, onBack, onNext }) => {
   const [activeClipIndex, setActiveClipIndex] = useState(0);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState(false);
+  const [isAspectLocked, setIsAspectLocked] = useState(false); // Keep boxes the shape they fill in the output frame
+  const [selectedCropId, setSelectedCropId] = useState<string | undefined>();
   const imageRef = useRef<HTMLImageElement>(null);
 
   const activeClip = clips[activeClipIndex];
@@ -22,6 +42,78 @@ const CropPanel: React.FC<CropPanelProps> = ({ clips, onClipsChange, onBack, onN
     onClipsChange(newClips);
   };
 
+  const updateActiveClip = (changes: Partial<EditedClip>) => {
+    const newClips = [...clips];
+    newClips[activeClipIndex] = { ...newClips[activeClipIndex], ...changes };
+    onClipsChange(newClips);
+  };
+
+  const frameAspect = getAspectRatioValue(videoSettings.aspectRatio);
+
+  // Reshapes crops to the cells they fill with `layout`, shrinking them where they'd leave the image.
+  const lockCrops = (crops: CropRect[], layout: CropLayoutOption): CropRect[] => {
+    const image = imageRef.current;
+    if (!image?.naturalWidth) return crops;
+    const aspects = getCropAspectRatios(layout, crops.length, frameAspect);
+    return crops.map((crop, j) => roundRect(lockCropToAspect(crop, aspects[j], image.naturalWidth, image.naturalHeight)));
+  };
+
+  const handleLayoutChange = (layout: CropLayoutOption | undefined) => {
+    const crops = isAspectLocked ? lockCrops(activeClip.crops, layout ?? videoSettings.layout) : activeClip.crops;
+    updateActiveClip({ layout, crops });
+  };
+
+  const handleAspectLockChange = (locked: boolean) => {
+    setIsAspectLocked(locked);
+    const image = imageRef.current;
+    if (!locked || !image?.naturalWidth) return;
+    updateActiveClip({
+      crops: lockCrops(activeClip.crops, getClipLayout(activeClip, videoSettings.layout)),
+      camera: activeClip.camera?.map(keyframe => ({ ...keyframe, rect: roundRect(lockCropToAspect(keyframe.rect, frameAspect, image.naturalWidth, image.naturalHeight)) })),
+    });
+  };
+
+  const handleAddCrop = () => {
+    const image = imageRef.current;
+    if (!image?.naturalWidth) return;
+    const crop = roundRect(createCrop(image.naturalWidth, image.naturalHeight));
+    const crops = [...activeClip.crops, crop];
+    handleCropChange(activeClipIndex, isAspectLocked ? lockCrops(crops, getClipLayout(activeClip, videoSettings.layout)) : crops);
+    setSelectedCropId(crop.id);
+  };
+
+  const handleDeleteCrop = (id: string) => {
+    const crops = activeClip.crops.filter(crop => crop.id !== id);
+    handleCropChange(activeClipIndex, isAspectLocked ? lockCrops(crops, getClipLayout(activeClip, videoSettings.layout)) : crops);
+    setSelectedCropId(undefined);
+  };
+
+  const handleCameraChange = (camera: CameraKeyframe[] | undefined) => {
+    updateActiveClip({ camera: camera && normalizeKeyframes(camera) });
+  };
+
+  const applyCameraPreset = (preset: typeof CAMERA_PRESETS[number]) => {
+    const image = imageRef.current;
+    if (!image?.naturalWidth) return;
+    handleCameraChange(preset.create(activeClip.crops, image.naturalWidth, image.naturalHeight));
+  };
+
+  const updateKeyframe = (id: string, changes: Partial<CameraKeyframe>) => {
+    handleCameraChange(activeClip.camera?.map(keyframe => keyframe.id === id ? { ...keyframe, ...changes } : keyframe));
+  };
+
+  // Adds a keyframe in the middle of the longest move, framing what the camera shows there.
+  const addKeyframe = () => {
+    const camera = activeClip.camera;
+    if (!camera || camera.length < 2) return;
+    let gapIndex = 0;
+    camera.forEach((keyframe, i) => {
+      if (i > 0 && keyframe.time - camera[i - 1].time > camera[gapIndex + 1].time - camera[gapIndex].time) gapIndex = i - 1;
+    });
+    const time = (camera[gapIndex].time + camera[gapIndex + 1].time) / 2;
+    handleCameraChange([...camera, createKeyframe(time, interpolateCamera(camera, time), camera[gapIndex].easing)]);
+  };
+
   const handleNextClip = () => {
     if (activeClipIndex < clips.length - 1) {
       setActiveClipIndex(activeClipIndex + 1);
@@ -52,33 +144,287 @@ const CropPanel: React.FC<CropPanelProps> = ({ clips, onClipsChange, onBack, onN
 
   // Memoize imageUrl to prevent re-renders of the image and CropEditor
   const imageUrl = useMemo(() => `data:${activeClip.mimeType};base64,${activeClip.inpaintedImageBase64}`, [activeClip.mimeType, activeClip.inpaintedImageBase64]);
+  const activePanel = panels.find(panel => panel.id === activeClip.panelId);
+  const isSequence = getClipLayout(activeClip, videoSettings.layout) === 'sequence';
+  const cropAspects = getCropAspectRatios(getClipLayout(activeClip, videoSettings.layout), activeClip.crops.length, frameAspect);
+  const projectLayoutLabel = LAYOUT_OPTIONS.find(option => option.value === videoSettings.layout)?.label;
+  const shotDurations = getShotDurations(activeClip);
 
   return (
     <div className="space-y-6">
       <div>
-        <h3 className="text-xl font-semibold text-white">Step 4: Adjust AI-Generated Crops</h3>
+        <h3 className="text-xl font-semibold text-white">Step 5: Adjust AI-Generated Crops</h3>
         <p className="text-sm text-gray-400 mt-1">
-          The AI has identified key subjects. Drag and resize the boxes to perfect the framing for each shot. These will be animated side-by-side.
+          The AI has identified key subjects. Drag and resize the boxes to perfect the framing for each shot. The layout decides how they share the frame,
+          unless the clip has a camera move.
+          Use the timeline to adjust when each clip starts and ends.
         </p>
       </div>
 
+      {panelFailures.length > 0 && (
+        <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-sm text-red-200">
+          <div className="flex justify-between items-start gap-4">
+            <p className="font-semibold">
+              Text removal failed for {panelFailures.length} panel{panelFailures.length > 1 ? 's' : ''}, so a fallback was used. Select a clip and use Redo AI Edits to try the AI again.
+            </p>
+            <button onClick={onDismissPanelFailures} className="text-red-300 hover:text-white" aria-label="Dismiss">×</button>
+          </div>
+          <ul className="mt-2 list-disc list-inside space-y-1 max-h-40 overflow-y-auto">
+            {panelFailures.map(failure => <li key={failure.panelId}>
+                Panel {failure.panelNumber} ({failure.fallback === 'local' ? 'local bubble removal' : 'original image'}): {failure.message}
+              </li>)}
+          </ul>
+        </div>
+      )}
+
+      {timingRepairs.length > 0 && (
+        <div className="p-4 bg-yellow-900/30 border border-yellow-700 rounded-lg text-sm text-yellow-200">
+          <div className="flex justify-between items-start gap-4">
+            <p className="font-semibold">The generated timings needed {timingRepairs.length} fix{timingRepairs.length > 1 ? 'es' : ''}:</p>
+            <button onClick={onDismissTimingRepairs} className="text-yellow-300 hover:text-white" aria-label="Dismiss">×</button>
+          </div>
+          <ul className="mt-2 list-disc list-inside space-y-1 max-h-40 overflow-y-auto">
+            {timingRepairs.map((repair, index) => <li key={index}>{repair}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <TimelineEditor
+        clips={clips}
+        panels={panels}
+        audioBlob={audioBlob}
+        activeClipIndex={activeClipIndex}
+        onSelectClip={setActiveClipIndex}
+        onClipsChange={onClipsChange}
+        textRemoval={textRemoval}
+      />
+
       <div className="flex items-center justify-center gap-4 my-4">
           <button onClick={handlePrevClip} disabled={activeClipIndex === 0} className="px-4 py-2 bg-gray-700 rounded-md disabled:opacity-50">Prev</button>
           <span>Clip {activeClipIndex + 1} of {clips.length} (Time: {activeClip.startTime.toFixed(2)}s - {(activeClip.startTime + activeClip.duration).toFixed(2)}s)</span>
           <button onClick={handleNextClip} disabled={activeClipIndex >= clips.length - 1} className="px-4 py-2 bg-gray-700 rounded-md disabled:opacity-50">Next</button>
       </div>
 
-      <div className="relative w-full max-w-2xl mx-auto select-none" style={{ aspectRatio: 'auto' }}>
-        <img ref={imageRef} src={imageUrl} alt="Panel to crop" className="w-full h-auto rounded-md" />
-        {imageRef.current && (
-           <CropEditor
-              imageEl={imageRef.current}
-              crops={activeClip.crops}
-              onCropsChange={(newCrops) => handleCropChange(activeClipIndex, newCrops)}
+      {activePanel && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setIsMaskEditorOpen(true)}
+            className="px-4 py-2 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors"
+            title="Inpaint or restore parts of this panel by hand"
+          >
+            Touch Up Panel
+          </button>
+        </div>
+      )}
+
+      {isMaskEditorOpen && activePanel && (
+        <MaskEditor
+          panel={activePanel}
+          imageBase64={activeClip.inpaintedImageBase64}
+          mimeType={activeClip.mimeType}
+          onSave={(imageBase64, mimeType) => {
+            onClipsChange(setPanelImageInClips(clips, activeClip.panelId, imageBase64, mimeType));
+            setIsMaskEditorOpen(false);
+          }}
+          onClose={() => setIsMaskEditorOpen(false)}
+        />
+      )}
+
+      {!activeClip.camera && (
+        <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg space-y-3">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              Layout
+              <select
+                value={activeClip.layout ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleLayoutChange((e.target.value || undefined) as CropLayoutOption | undefined)}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md"
+              >
+                <option value="">Project default ({projectLayoutLabel})</option>
+                {LAYOUT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Project default
+              <select
+                value={videoSettings.layout}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onVideoSettingsChange({ ...videoSettings, layout: e.target.value as CropLayoutOption })}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md"
+              >
+                {LAYOUT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </label>
+            {isSequence && (
+              <label className="flex items-center gap-2">
+                Between shots
+                <select
+                  value={activeClip.shotTransition ?? 'cut'}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateActiveClip({ shotTransition: e.target.value as ShotTransitionOption })}
+                  className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md"
+                >
+                  <option value="cut">Cut</option>
+                  <option value="fade">Fade</option>
+                </select>
+              </label>
+            )}
+          </div>
+          {isSequence && (
+            <>
+              <p className="text-xs text-gray-400">
+                Each crop fills the frame as its own shot, in order. Weights set how the clip's time is shared between the shots.
+              </p>
+              <ul className="flex flex-wrap gap-4 text-sm text-gray-300">
+                {activeClip.crops.map((crop, j) => (
+                  <li key={crop.id}>
+                    <label className="flex items-center gap-1">
+                      Shot {j + 1}
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        value={crop.weight ?? 1}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleCropChange(activeClipIndex, activeClip.crops.map(c => c.id === crop.id ? { ...c, weight: Math.max(0.1, Number(e.target.value) || 1) } : c))}
+                        className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded-md"
+                      />
+                      <span className="text-gray-400">({shotDurations[j].toFixed(2)}s)</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-200">
+            <input
+              type="checkbox"
+              checked={!!activeClip.camera}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => e.target.checked ? applyCameraPreset(CAMERA_PRESETS[0]) : handleCameraChange(undefined)}
             />
+            Camera move
+          </label>
+          {activeClip.camera && (
+            <div className="flex flex-wrap gap-2">
+              {CAMERA_PRESETS.map(preset => (
+                <button key={preset.name} onClick={() => applyCameraPreset(preset)} className="px-3 py-1 text-xs bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition-colors">
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-gray-400">
+          Glide the camera across the whole panel from one framed area to the next instead of showing the crops side by side.
+          The boxes on the image mark what the camera frames at each keyframe. The video's animation setting doesn't apply to these clips.
+        </p>
+        {activeClip.camera && (
+          <ul className="space-y-2">
+            {activeClip.camera.map((keyframe, i, camera) => {
+              const isEnd = i === 0 || i === camera.length - 1;
+              return (
+                <li key={keyframe.id} className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                  <span className="w-16 font-semibold">{i === 0 ? 'Start' : i === camera.length - 1 ? 'End' : `Key ${i}`}</span>
+                  <label className="flex items-center gap-1">
+                    At
+                    <input
+                      type="number"
+                      min={1}
+                      max={99}
+                      value={Math.round(keyframe.time * 100)}
+                      disabled={isEnd}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateKeyframe(keyframe.id, { time: Number(e.target.value) / 100 })}
+                      className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded-md disabled:opacity-50"
+                    />
+                    %
+                  </label>
+                  {i < camera.length - 1 && (
+                    <label className="flex items-center gap-1">
+                      Move
+                      <select
+                        value={keyframe.easing}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateKeyframe(keyframe.id, { easing: e.target.value as EasingOption })}
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md"
+                      >
+                        {EASING_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                      </select>
+                    </label>
+                  )}
+                  {camera.length > 2 && (
+                    <button onClick={() => handleCameraChange(camera.filter(k => k.id !== keyframe.id))} className="text-red-400 hover:text-red-300">
+                      Delete
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+            <li>
+              <button onClick={addKeyframe} className="px-3 py-1 text-xs bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition-colors">
+                Add Keyframe
+              </button>
+            </li>
+          </ul>
         )}
       </div>
 
+      <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={isAspectLocked} onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleAspectLockChange(e.target.checked)} />
+          Lock boxes to the output frame shape
+        </label>
+        {!activeClip.camera && (
+          <>
+            <button onClick={handleAddCrop} className="px-3 py-1 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition-colors">
+              Add Crop
+            </button>
+            <button
+              onClick={() => selectedCropId && handleDeleteCrop(selectedCropId)}
+              disabled={!activeClip.crops.some(crop => crop.id === selectedCropId)}
+              className="px-3 py-1 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            >
+              Delete Crop
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 text-center">
+        Drag a box or its handles to frame it. With a box selected, the arrow keys move it (Shift for bigger steps), Alt + arrow keys resize it and Delete removes it.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-6 items-start">
+        <div className="relative w-full max-w-2xl mx-auto select-none" style={{ aspectRatio: 'auto' }}>
+          <img ref={imageRef} src={imageUrl} alt="Panel to crop" className="w-full h-auto rounded-md" />
+          {imageRef.current && (activeClip.camera ? (
+            <CropEditor
+              imageEl={imageRef.current}
+              crops={activeClip.camera.map(keyframe => ({ ...keyframe.rect, id: keyframe.id }))}
+              labels={Object.fromEntries(activeClip.camera.map((keyframe, i, camera) => [keyframe.id, i === 0 ? 'Start' : i === camera.length - 1 ? 'End' : `Key ${i}`]))}
+              aspectRatios={isAspectLocked ? Object.fromEntries(activeClip.camera.map(keyframe => [keyframe.id, frameAspect])) : undefined}
+              selectedId={selectedCropId}
+              onSelect={setSelectedCropId}
+              onCropsChange={(rects) => handleCameraChange(activeClip.camera?.map(keyframe => {
+                const { id, ...rect } = rects.find(r => r.id === keyframe.id) ?? { ...keyframe.rect, id: keyframe.id };
+                return { ...keyframe, rect };
+              }))}
+            />
+          ) : (
+             <CropEditor
+                imageEl={imageRef.current}
+                crops={activeClip.crops}
+                labels={isSequence ? Object.fromEntries(activeClip.crops.map((crop, j) => [crop.id, `Shot ${j + 1}`])) : undefined}
+                aspectRatios={isAspectLocked ? Object.fromEntries(activeClip.crops.map((crop, j) => [crop.id, cropAspects[j]])) : undefined}
+                selectedId={selectedCropId}
+                onSelect={setSelectedCropId}
+                onDelete={handleDeleteCrop}
+                onCropsChange={(newCrops) => handleCropChange(activeClipIndex, newCrops)}
+              />
+          ))}
+        </div>
+        <LayoutPreview clip={activeClip} imageUrl={imageUrl} settings={videoSettings} />
+      </div>
+
       <div className="flex justify-between items-center pt-4">
         <button onClick={onBack} className="px-6 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 transition-colors flex items-center gap-2">
             <BackIcon className="w-5 h-5" /> Back
@@ -96,16 +442,39 @@ const CropPanel: React.FC<CropPanelProps> = ({ clips, onClipsChange, onBack, onN
 interface CropEditorProps {
     imageEl: HTMLImageElement;
     crops: CropRect[];
+    labels?: Record<string, string>; // Text shown in the corner of each box, by crop id
+    aspectRatios?: Record<string, number>; // Shape (width / height) each box is locked to, by crop id
+    selectedId?: string;
+    onSelect?: (id: string) => void;
+    onDelete?: (id: string) => void; // Called for the Delete key; without it boxes can't be deleted
     onCropsChange: (crops: CropRect[]) => void;
 }
 
-const CropEditor: React.FC<CropEditorProps> = ({ imageEl, crops, onCropsChange }) => {
-    const [draggingInfo, setDraggingInfo] = useState<{ id: string; type: 'move' | 'resize'; startX: number; startY: number; cropStart: CropRect } | null>(null);
+// Image pixels an arrow key moves (or resizes) the selected box by; Shift moves it further.
+const NUDGE_STEP = 2;
+const NUDGE_STEP_LARGE = 20;
+
+const handlePositions: Record<ResizeHandle, string> = {
+    n: 'top-[-6px] left-1/2 -translate-x-1/2 cursor-ns-resize',
+    s: 'bottom-[-6px] left-1/2 -translate-x-1/2 cursor-ns-resize',
+    e: 'right-[-6px] top-1/2 -translate-y-1/2 cursor-ew-resize',
+    w: 'left-[-6px] top-1/2 -translate-y-1/2 cursor-ew-resize',
+    ne: 'top-[-6px] right-[-6px] cursor-nesw-resize',
+    nw: 'top-[-6px] left-[-6px] cursor-nwse-resize',
+    se: 'bottom-[-6px] right-[-6px] cursor-nwse-resize',
+    sw: 'bottom-[-6px] left-[-6px] cursor-nesw-resize',
+};
+
+const CropEditor: React.FC<CropEditorProps> = ({ imageEl, crops, labels, aspectRatios, selectedId, onSelect, onDelete, onCropsChange }) => {
+    const [draggingInfo, setDraggingInfo] = useState<{ id: string; type: 'move' | ResizeHandle; startX: number; startY: number; cropStart: CropRect } | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
-    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>, crop: CropRect, type: 'move' | 'resize') => {
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, crop: CropRect, type: 'move' | ResizeHandle) => {
+        if (e.button !== 0) return;
         e.preventDefault();
         e.stopPropagation();
+        onSelect?.(crop.id);
+        (e.currentTarget.closest('[data-crop]') as HTMLElement | null)?.focus();
         setDraggingInfo({
             id: crop.id,
             type,
@@ -114,9 +483,13 @@ const CropEditor: React.FC<CropEditorProps> = ({ imageEl, crops, onCropsChange }
             cropStart: { ...crop }
         });
     };
-    
+
+    const updateCrop = (id: string, update: (crop: CropRect) => CropRect) => {
+        onCropsChange(crops.map(c => c.id === id ? roundRect(update(c)) : c));
+    };
+
     useEffect(() => {
-        const handleMouseMove = (e: MouseEvent) => {
+        const handlePointerMove = (e: PointerEvent) => {
             if (!draggingInfo || !containerRef.current || !imageEl.naturalWidth) return;
 
             const { naturalWidth, naturalHeight } = imageEl;
@@ -126,40 +499,49 @@ const CropEditor: React.FC<CropEditorProps> = ({ imageEl, crops, onCropsChange }
 
             const dx = (e.clientX - draggingInfo.startX) * scaleX;
             const dy = (e.clientY - draggingInfo.startY) * scaleY;
-            const { cropStart } = draggingInfo;
-
-            const newCrops = crops.map(c => {
-                if (c.id === draggingInfo.id) {
-                    let { x, y, w, h } = cropStart;
-                    if (draggingInfo.type === 'move') {
-                        x = Math.max(0, Math.min(naturalWidth - w, cropStart.x + dx));
-                        y = Math.max(0, Math.min(naturalHeight - h, cropStart.y + dy));
-                    } else { // resize
-                        w = Math.max(50, Math.min(naturalWidth - x, cropStart.w + dx));
-                        h = Math.max(50, Math.min(naturalHeight - y, cropStart.h + dy));
-                    }
-                    return { ...c, x, y, w, h };
-                }
-                return c;
-            });
-            onCropsChange(newCrops);
+            const { cropStart, type } = draggingInfo;
+
+            updateCrop(draggingInfo.id, () => type === 'move'
+                ? moveRect(cropStart, dx, dy, naturalWidth, naturalHeight)
+                : resizeRect(cropStart, type, dx, dy, naturalWidth, naturalHeight, aspectRatios?.[cropStart.id]));
         };
         
-        const handleMouseUp = () => {
+        const handlePointerUp = () => {
             setDraggingInfo(null);
         };
 
         if (draggingInfo) {
-            window.addEventListener('mousemove', handleMouseMove);
-            window.addEventListener('mouseup', handleMouseUp);
+            window.addEventListener('pointermove', handlePointerMove);
+            window.addEventListener('pointerup', handlePointerUp);
+            window.addEventListener('pointercancel', handlePointerUp);
         }
 
         return () => {
-            window.removeEventListener('mousemove', handleMouseMove);
-            window.removeEventListener('mouseup', handleMouseUp);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
         };
 
-    }, [draggingInfo, crops, onCropsChange, imageEl]);
+    }, [draggingInfo, crops, onCropsChange, imageEl, aspectRatios]);
+
+    // Arrow keys move the box, Alt + arrow keys resize it from its bottom-right corner, Delete removes it.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, crop: CropRect) => {
+        if ((e.key === 'Delete' || e.key === 'Backspace') && onDelete) {
+            e.preventDefault();
+            onDelete(crop.id);
+            return;
+        }
+        const directions: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+        const direction = directions[e.key];
+        if (!direction) return;
+        e.preventDefault();
+        const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+        const [dx, dy] = [direction[0] * step, direction[1] * step];
+        const { naturalWidth, naturalHeight } = imageEl;
+        updateCrop(crop.id, c => e.altKey
+            ? resizeRect(c, 'se', dx, dy, naturalWidth, naturalHeight, aspectRatios?.[c.id])
+            : moveRect(c, dx, dy, naturalWidth, naturalHeight));
+    };
 
     if (!imageEl.naturalWidth) return null; // Wait for image to load
 
@@ -173,19 +555,31 @@ const CropEditor: React.FC<CropEditorProps> = ({ imageEl, crops, onCropsChange }
             {crops.map(crop => (
                 <div
                     key={crop.id}
-                    className="absolute border-2 border-purple-500 bg-purple-500/20"
+                    data-crop
+                    tabIndex={0}
+                    role="group"
+                    aria-label={labels?.[crop.id] ?? 'Crop'}
+                    className={`absolute border-2 bg-purple-500/20 touch-none outline-none ${crop.id === selectedId ? 'border-yellow-400' : 'border-purple-500'}`}
                     style={{
                         transform: `translate(${crop.x * scaleX}px, ${crop.y * scaleY}px)`,
                         width: `${crop.w * scaleX}px`,
                         height: `${crop.h * scaleY}px`,
                         cursor: 'move',
                     }}
-                    onMouseDown={(e) => handleMouseDown(e, crop, 'move')}
+                    onPointerDown={(e) => handlePointerDown(e, crop, 'move')}
+                    onFocus={() => onSelect?.(crop.id)}
+                    onKeyDown={(e) => handleKeyDown(e, crop)}
                 >
-                    <div
-                        className="absolute bottom-[-4px] right-[-4px] w-4 h-4 bg-purple-500 cursor-se-resize border-2 border-white rounded-full"
-                        onMouseDown={(e) => handleMouseDown(e, crop, 'resize')}
-                    />
+                    {labels?.[crop.id] && (
+                        <span className="absolute top-0 left-0 px-1 text-[10px] leading-4 bg-purple-500 text-white">{labels[crop.id]}</span>
+                    )}
+                    {RESIZE_HANDLES.map(handle => (
+                        <div
+                            key={handle}
+                            className={`absolute w-3 h-3 bg-purple-500 border-2 border-white rounded-full touch-none ${handlePositions[handle]}`}
+                            onPointerDown={(e) => handlePointerDown(e, crop, handle)}
+                        />
+                    ))}
                 </div>
             ))}
         </div>
@@ -1,8 +1,15 @@
 
 import React, { useCallback, useState, useEffect } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { ManhwaPanel } from '../types';
+import { useDropzone, FileRejection } from 'react-dropzone';
+import { ManhwaPanel, ReadingDirection } from '../types';
 import { UploadIcon, TrashIcon, EyeIcon } from './icons';
+import StripSlicer, { StripSliceItem } from './StripSlicer';
+import PageSplitter, { PageSplitItem } from './PageSplitter';
+import {
+  loadImage, getImageData, detectGutterCuts, isLongStrip, sliceImageAtCuts,
+  detectPanelLayout, cropImageRegions, ImageRegion,
+} from '../utils/imageUtils';
+import { expandImportFiles, SkippedEntry } from '../services/importService';
 
 interface ImagePreviewModalProps {
   imageUrl: string | null;
@@ -54,6 +61,59 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ imageUrl, onClose
 };
 
 
+// 'as_is' imports every image as a single panel; the others split images according to the reading direction.
+type ImportMode = 'as_is' | ReadingDirection;
+
+interface ImportEntry {
+  file: File;
+  strip?: StripSliceItem; // Webtoon mode: a long strip whose cut lines need review
+  page?: PageSplitItem; // Comic/manga mode: a page whose detected panels need review
+  slices?: File[];
+}
+
+interface PendingImport {
+  entries: ImportEntry[];
+  reviewIndex: number; // Index of the entry currently under review
+}
+
+const getReviewUrl = (entry: ImportEntry): string | undefined => entry.strip?.imageUrl ?? entry.page?.imageUrl;
+
+const revokeReviewUrls = (entries: ImportEntry[]) => {
+  entries.forEach(entry => {
+    const url = getReviewUrl(entry);
+    if (url) URL.revokeObjectURL(url);
+  });
+};
+
+const createPanels = (files: File[]): ManhwaPanel[] => files.map(file => ({
+  id: crypto.randomUUID(),
+  file,
+  preview: URL.createObjectURL(file),
+}));
+
+// Loads an image and decides whether it needs to be split under the chosen import mode.
+const analyzeFile = async (file: File, mode: ReadingDirection): Promise<ImportEntry> => {
+  const imageUrl = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(imageUrl);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    if (mode === 'webtoon') {
+      if (isLongStrip(img)) {
+        return { file, strip: { file, imageUrl, width, height, suggestedCuts: detectGutterCuts(getImageData(img)) } };
+      }
+    } else {
+      const regions = detectPanelLayout(getImageData(img), mode);
+      if (regions.length > 1) {
+        return { file, page: { file, imageUrl, width, height, regions, direction: mode } };
+      }
+    }
+  } catch (error) {
+    console.error(`Could not analyze ${file.name} for splitting, importing it as-is.`, error);
+  }
+  URL.revokeObjectURL(imageUrl);
+  return { file };
+};
+
 interface ImagePanelProps {
   panels: ManhwaPanel[];
   onPanelsChange: (panels: ManhwaPanel[]) => void;
@@ -63,19 +123,87 @@ interface ImagePanelProps {
 const ImagePanel: React.FC<ImagePanelProps> = ({ panels, onPanelsChange, onNext }) => {
   const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
   const [viewingPanelUrl, setViewingPanelUrl] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('webtoon');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [skippedEntries, setSkippedEntries] = useState<SkippedEntry[]>([]);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newPanels: ManhwaPanel[] = acceptedFiles.map(file => ({
-      id: crypto.randomUUID(),
-      file,
-      preview: URL.createObjectURL(file),
-    }));
-    onPanelsChange([...panels, ...newPanels]);
-  }, [panels, onPanelsChange]);
+  const onDrop = useCallback(async (droppedFiles: File[], fileRejections: FileRejection[]) => {
+    setIsAnalyzing(true);
+    const rejected: SkippedEntry[] = fileRejections.map(({ file }) => ({ source: file.name, name: file.name, reason: 'Unsupported file type' }));
+    const entries: ImportEntry[] = [];
+    try {
+      const { files, skipped } = await expandImportFiles(droppedFiles);
+      setSkippedEntries([...rejected, ...skipped]);
+      for (const file of files) {
+        entries.push(importMode === 'as_is' ? { file } : await analyzeFile(file, importMode));
+      }
+    } finally {
+      setIsAnalyzing(false);
+    }
+
+    const firstReviewIndex = entries.findIndex(getReviewUrl);
+    if (firstReviewIndex === -1) {
+      onPanelsChange([...panels, ...createPanels(entries.map(entry => entry.file))]);
+    } else {
+      setPendingImport({ entries, reviewIndex: firstReviewIndex });
+    }
+  }, [panels, onPanelsChange, importMode]);
+
+  const finishImport = (entries: ImportEntry[]) => {
+    revokeReviewUrls(entries);
+    const files = entries.flatMap(entry => entry.slices ?? [entry.file]);
+    setPendingImport(null);
+    onPanelsChange([...panels, ...createPanels(files)]);
+  };
+
+  // Applies the reviewed split to the current entry, then moves on to the next entry needing review.
+  const completeReview = async (split: ((img: HTMLImageElement, entry: ImportEntry) => Promise<File[]>) | null) => {
+    if (!pendingImport) return;
+    const entries = [...pendingImport.entries];
+    const entry = entries[pendingImport.reviewIndex];
+    const imageUrl = getReviewUrl(entry);
+    if (split && imageUrl) {
+      try {
+        const img = await loadImage(imageUrl);
+        entries[pendingImport.reviewIndex] = { ...entry, slices: await split(img, entry) };
+      } catch (error) {
+        console.error(`Failed to split ${entry.file.name}:`, error);
+        alert(`Could not split ${entry.file.name}. It will be imported as a single panel.`);
+      }
+    }
+
+    const nextReviewIndex = entries.findIndex((e, i) => i > pendingImport.reviewIndex && getReviewUrl(e));
+    if (nextReviewIndex === -1) {
+      finishImport(entries);
+    } else {
+      setPendingImport({ entries, reviewIndex: nextReviewIndex });
+    }
+  };
+
+  const handleConfirmSlices = (cuts: number[]) =>
+    completeReview(cuts.length > 0 ? (img, entry) => sliceImageAtCuts(img, cuts, entry.file) : null);
+
+  const handleConfirmRegions = (regions: ImageRegion[]) =>
+    completeReview(regions.length > 0 ? (img, entry) => cropImageRegions(img, regions, entry.file) : null);
+
+  const handleCancelImport = () => {
+    if (pendingImport) revokeReviewUrls(pendingImport.entries);
+    setPendingImport(null);
+  };
+
+  const reviewEntries = pendingImport ? pendingImport.entries.filter(getReviewUrl) : [];
+  const reviewEntry = pendingImport?.entries[pendingImport.reviewIndex] ?? null;
+  const reviewPosition = reviewEntry ? reviewEntries.indexOf(reviewEntry) + 1 : 0;
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: { 'image/*': ['.jpeg', '.png', '.gif', '.bmp', '.webp', '.jpg'] },
+    accept: {
+      'image/*': ['.jpeg', '.png', '.gif', '.bmp', '.webp', '.jpg'],
+      'application/zip': ['.zip', '.cbz'],
+      'application/vnd.comicbook+zip': ['.cbz'],
+      'application/pdf': ['.pdf'],
+    },
   });
   
   const removePanel = (id: string) => {
@@ -127,7 +255,7 @@ const ImagePanel: React.FC<ImagePanelProps> = ({ panels, onPanelsChange, onNext
       <div>
         <h3 className="text-xl font-semibold text-white">Step 1: Upload Your Manhwa Panels</h3>
         <p className="text-sm text-gray-400 mt-1">
-          Drag and drop your image files below, or click to select them. Make sure they are in the correct chronological order. You can drag to reorder them after uploading.
+          Drag and drop your image files, CBZ/ZIP archives or PDFs below, or click to select them. Pages inside archives are ordered by file name. Make sure they are in the correct chronological order. You can drag to reorder them after uploading.
         </p>
       </div>
 
@@ -142,7 +270,41 @@ const ImagePanel: React.FC<ImagePanelProps> = ({ panels, onPanelsChange, onNext
         <p className="mt-4 text-gray-300">
           {isDragActive ? 'Drop the files here...' : "Drag 'n' drop some files here, or click to select files"}
         </p>
-        <p className="text-xs text-gray-500 mt-1">Supported formats: PNG, JPG, GIF, WEBP</p>
+        <p className="text-xs text-gray-500 mt-1">Supported formats: PNG, JPG, GIF, WEBP, as well as CBZ/ZIP archives and PDFs</p>
+        {isAnalyzing && <p className="text-sm text-purple-400 mt-2">Extracting pages and detecting panel borders...</p>}
+      </div>
+
+      {skippedEntries.length > 0 && (
+        <div className="p-4 bg-yellow-900/30 border border-yellow-700 rounded-lg text-sm" role="status">
+          <div className="flex justify-between items-start gap-4">
+            <p className="font-semibold text-yellow-300">{skippedEntries.length} item{skippedEntries.length === 1 ? ' was' : 's were'} skipped during import:</p>
+            <button onClick={() => setSkippedEntries([])} className="text-yellow-300 hover:text-white" aria-label="Dismiss import report">&times;</button>
+          </div>
+          <ul className="mt-2 max-h-32 overflow-y-auto space-y-1 text-yellow-100/80">
+            {skippedEntries.map((entry, index) => (
+              <li key={index}>
+                {entry.source !== entry.name && <span className="text-yellow-400">{entry.source}: </span>}
+                {entry.name} &mdash; {entry.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label htmlFor="importMode" className="text-sm font-medium text-gray-300">Import mode:</label>
+        <select
+          id="importMode"
+          value={importMode}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setImportMode(e.target.value as ImportMode)}
+          className="p-2 bg-gray-800 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500 text-sm"
+        >
+          <option value="webtoon">Webtoon: slice long vertical strips at gutters</option>
+          <option value="ltr">Comic pages: split panels, read left to right</option>
+          <option value="rtl">Manga pages: split panels, read right to left</option>
+          <option value="as_is">One panel per image</option>
+        </select>
+        <span className="text-xs text-gray-500">Detected cuts are shown for review before panels are added.</span>
       </div>
 
       {panels.length > 0 && (
@@ -194,6 +356,26 @@ const ImagePanel: React.FC<ImagePanelProps> = ({ panels, onPanelsChange, onNext
         </button>
       </div>
       <ImagePreviewModal imageUrl={viewingPanelUrl} onClose={() => setViewingPanelUrl(null)} />
+      {reviewEntry?.strip && (
+        <StripSlicer
+          key={reviewEntry.strip.imageUrl}
+          item={reviewEntry.strip}
+          position={reviewPosition}
+          total={reviewEntries.length}
+          onConfirm={handleConfirmSlices}
+          onCancel={handleCancelImport}
+        />
+      )}
+      {reviewEntry?.page && (
+        <PageSplitter
+          key={reviewEntry.page.imageUrl}
+          item={reviewEntry.page}
+          position={reviewPosition}
+          total={reviewEntries.length}
+          onConfirm={handleConfirmRegions}
+          onCancel={handleCancelImport}
+        />
+      )}
     </div>
   );
 };
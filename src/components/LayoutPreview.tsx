@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EditedClip, VideoSettings } from '../types';
+import { loadImage } from '../utils/imageUtils';
+import { fitInCell, getAspectRatioValue, getClipLayout, getLayoutCells, getLayoutSources, LayoutCell } from '../utils/layoutUtils';
+import { fitRectToAspect, normalizeKeyframes } from '../utils/cameraUtils';
+
+interface LayoutPreviewProps {
+  clip: EditedClip;
+  imageUrl: string;
+  settings: VideoSettings; // Project layout, aspect ratio and background fill
+}
+
+const PREVIEW_WIDTH = 320; // Canvas width in pixels; the height follows the aspect ratio
+
+// A still of how the clip fills the output frame: its first frame for camera moves and sequences.
+const LayoutPreview: React.FC<LayoutPreviewProps> = ({ clip, imageUrl, settings }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layout = getClipLayout(clip, settings.layout);
+  const aspect = getAspectRatioValue(settings.aspectRatio);
+  const backgroundImageUrl = settings.backgroundImage && `data:${settings.backgroundImage.mimeType};base64,${settings.backgroundImage.imageBase64}`;
+
+  useEffect(() => {
+    let isCurrent = true;
+    loadImage(imageUrl)
+      .then(loaded => { if (isCurrent) setImage(loaded); })
+      .catch(error => console.error("Could not load the panel for the layout preview:", error));
+    return () => { isCurrent = false; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setBackgroundImage(null);
+    if (!backgroundImageUrl) return;
+    loadImage(backgroundImageUrl)
+      .then(loaded => { if (isCurrent) setBackgroundImage(loaded); })
+      .catch(error => console.error("Could not load the background image for the layout preview:", error));
+    return () => { isCurrent = false; };
+  }, [backgroundImageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round(PREVIEW_WIDTH / aspect);
+    ctx.fillStyle = settings.backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Fills the frame with a picture, cropping whatever overflows, like the renderer's background.
+    const cover = (picture: HTMLImageElement, blur: number) => {
+      const scale = Math.max(canvas.width / picture.naturalWidth, canvas.height / picture.naturalHeight);
+      const w = picture.naturalWidth * scale;
+      const h = picture.naturalHeight * scale;
+      ctx.save();
+      ctx.filter = blur > 0 ? `blur(${blur}px)` : 'none';
+      ctx.drawImage(picture, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+      ctx.restore();
+    };
+    if (settings.background === 'blur') cover(image, 8);
+    else if (settings.background === 'image' && backgroundImage) cover(backgroundImage, 0);
+
+    const draw = (source: LayoutCell, cell: LayoutCell) => {
+      if (source.w <= 0 || source.h <= 0) return;
+      const target = fitInCell(cell, source.w, source.h);
+      ctx.drawImage(image, source.x, source.y, source.w, source.h, target.x, target.y, target.w, target.h);
+    };
+
+    const frame = { x: 0, y: 0, w: canvas.width, h: canvas.height };
+    if (clip.camera && clip.camera.length >= 2) {
+      const start = normalizeKeyframes(clip.camera)[0].rect;
+      draw(fitRectToAspect(start, aspect, image.naturalWidth, image.naturalHeight), frame);
+    } else if (layout === 'sequence') {
+      draw(getLayoutSources(layout, clip.crops, image.naturalWidth, image.naturalHeight)[0], frame);
+    } else {
+      const sources = getLayoutSources(layout, clip.crops, image.naturalWidth, image.naturalHeight);
+      const cells = getLayoutCells(layout, Math.max(1, clip.crops.length), canvas.width, canvas.height);
+      sources.forEach((source, i) => draw(source, cells[i]));
+    }
+  }, [image, backgroundImage, clip.crops, clip.camera, layout, aspect, settings.background, settings.backgroundColor]);
+
+  const caption = clip.camera
+    ? 'Camera move, first frame'
+    : layout === 'sequence' && clip.crops.length > 1 ? `Shot 1 of ${clip.crops.length}` : null;
+
+  return (
+    <figure className="flex flex-col items-center gap-1">
+      <canvas ref={canvasRef} className="w-full max-w-xs rounded-md border border-gray-700" />
+      <figcaption className="text-xs text-gray-400">Output frame ({settings.aspectRatio}){caption && ` · ${caption}`}</figcaption>
+    </figure>
+  );
+};
+
+export default LayoutPreview;
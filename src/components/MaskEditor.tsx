@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ManhwaPanel } from '../types';
+import { loadImage, loadImageFromBlob } from '../utils/imageUtils';
+import { addBrushStroke, canvasToBase64Png, drawThroughOverlay, isOverlayEmpty, overlayToMask, Point } from '../utils/maskUtils';
+import { inpaintPanelRegion } from '../services/animationService';
+import { isAbortError } from '../utils/asyncUtils';
+
+interface MaskEditorProps {
+  panel: ManhwaPanel; // Source of the original pixels for the restore brush
+  imageBase64: string; // The edited panel image being touched up
+  mimeType: string;
+  onSave: (imageBase64: string, mimeType: string) => void;
+  onClose: () => void;
+}
+
+// 'mask' marks areas to inpaint, 'erase' unmarks them, 'restore' paints the original panel back in.
+type BrushTool = 'mask' | 'erase' | 'restore';
+
+const MASK_COLOR = 'rgb(239, 68, 68)';
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ panel, imageBase64, mimeType, onSave, onClose }) => {
+  const [tool, setTool] = useState<BrushTool>('mask');
+  const [brushSize, setBrushSize] = useState(40); // Diameter in image pixels
+  const [isReady, setIsReady] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [isInpainting, setIsInpainting] = useState(false);
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const originalRef = useRef<HTMLImageElement | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Draws the image being edited and clears the mask; also used to throw away all changes.
+  const loadCanvases = async () => {
+    const [image, original] = await Promise.all([loadImage(`data:${mimeType};base64,${imageBase64}`), loadImageFromBlob(panel.file)]);
+    const imageCanvas = imageCanvasRef.current;
+    const overlayCanvas = overlayCanvasRef.current;
+    if (!imageCanvas || !overlayCanvas) return;
+    originalRef.current = original;
+    for (const canvas of [imageCanvas, overlayCanvas]) {
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+    }
+    imageCanvas.getContext('2d')?.drawImage(image, 0, 0);
+    setBrushSize(Math.max(8, Math.round(image.naturalWidth / 25)));
+    setHasMask(false);
+    setHasChanges(false);
+    setIsReady(true);
+  };
+
+  useEffect(() => {
+    loadCanvases().catch(error => {
+      console.error("Could not load the panel for editing:", error);
+      alert("Failed to load the panel for editing.");
+      onClose();
+    });
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paint = (from: Point, to: Point) => {
+    const overlayCanvas = overlayCanvasRef.current;
+    const imageCanvas = imageCanvasRef.current;
+    const radius = brushSize / 2;
+    if (!overlayCanvas || !imageCanvas) return;
+
+    if (tool === 'restore') {
+      const ctx = imageCanvas.getContext('2d');
+      const original = originalRef.current;
+      if (!ctx || !original) return;
+      ctx.save();
+      ctx.beginPath();
+      addBrushStroke(ctx, from, to, radius);
+      ctx.clip();
+      // The edited image can differ in size from the upload, so the original is stretched over it.
+      ctx.drawImage(original, 0, 0, imageCanvas.width, imageCanvas.height);
+      ctx.restore();
+      setHasChanges(true);
+      return;
+    }
+
+    const ctx = overlayCanvas.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    addBrushStroke(ctx, from, to, radius);
+    ctx.fill();
+    ctx.restore();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isReady || isInpainting) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    lastPointRef.current = point;
+    paint(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    const point = toImagePoint(e);
+    paint(lastPointRef.current, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    if (tool !== 'restore' && overlayCanvasRef.current) {
+      setHasMask(!isOverlayEmpty(overlayCanvasRef.current));
+    }
+  };
+
+  const clearMask = () => {
+    const overlayCanvas = overlayCanvasRef.current;
+    overlayCanvas?.getContext('2d')?.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
+    setHasMask(false);
+  };
+
+  const handleInpaint = async () => {
+    const imageCanvas = imageCanvasRef.current;
+    const overlayCanvas = overlayCanvasRef.current;
+    if (!imageCanvas || !overlayCanvas || !hasMask) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsInpainting(true);
+    try {
+      const result = await inpaintPanelRegion(canvasToBase64Png(imageCanvas), canvasToBase64Png(overlayToMask(overlayCanvas)), controller.signal);
+      const inpainted = await loadImage(`data:${result.mimeType};base64,${result.data}`);
+      // Only take the model's pixels inside the mask; it may have redrawn the rest of the panel slightly differently.
+      drawThroughOverlay(imageCanvas, inpainted, overlayCanvas);
+      clearMask();
+      setHasChanges(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error inpainting the masked area:", error);
+      alert("Failed to inpaint the masked area. Please check the console for details.");
+    } finally {
+      abortControllerRef.current = null;
+      setIsInpainting(false);
+    }
+  };
+
+  const handleReset = () => {
+    loadCanvases().catch(error => console.error("Could not reload the panel:", error));
+  };
+
+  const handleSave = () => {
+    if (!imageCanvasRef.current) return;
+    const { data, mimeType: savedMimeType } = canvasToBase64Png(imageCanvasRef.current);
+    onSave(data, savedMimeType);
+  };
+
+  const toolButtonClass = (value: BrushTool) =>
+    `px-3 py-1 text-sm rounded-md transition-colors ${tool === value ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-40 p-4" role="dialog" aria-modal="true" aria-labelledby="mask-editor-title">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[95vh] overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div>
+            <h2 id="mask-editor-title" className="text-xl font-semibold text-white">Touch Up Panel</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Paint over leftover bubbles, sound effects or watermarks and inpaint just those areas, or paint the original artwork back where too much was removed.
+              Changes apply to every clip that shows this panel.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setTool('mask')} className={toolButtonClass('mask')}>Mask</button>
+            <button onClick={() => setTool('erase')} className={toolButtonClass('erase')}>Erase Mask</button>
+            <button onClick={() => setTool('restore')} className={toolButtonClass('restore')}>Restore Original</button>
+            <label className="flex items-center gap-2 text-sm text-gray-300 ml-2">
+              Brush
+              <input
+                type="range"
+                min={4}
+                max={300}
+                value={brushSize}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBrushSize(Number(e.target.value))}
+              />
+              <span className="w-12 text-gray-400">{brushSize}px</span>
+            </label>
+          </div>
+
+          <div className="relative w-full max-w-2xl mx-auto select-none">
+            <canvas ref={imageCanvasRef} className="w-full h-auto rounded-md block" />
+            <canvas
+              ref={overlayCanvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+            />
+            {(!isReady || isInpainting) && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/50 rounded-md">
+                <div className="w-10 h-10 border-4 border-t-purple-500 border-gray-600 rounded-full animate-spin"></div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <div className="flex gap-2">
+              <button
+                onClick={handleInpaint}
+                disabled={!hasMask || isInpainting}
+                className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isInpainting ? 'Inpainting...' : 'Inpaint Masked Area'}
+              </button>
+              {isInpainting ? (
+                <button onClick={() => abortControllerRef.current?.abort()} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+                  Cancel
+                </button>
+              ) : (
+                <button onClick={clearMask} disabled={!hasMask} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                  Clear Mask
+                </button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleReset} disabled={isInpainting} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors">
+                Reset
+              </button>
+              <button onClick={onClose} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!hasChanges || isInpainting}
+                className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
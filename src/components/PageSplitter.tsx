@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ReadingDirection } from '../types';
+import { ImageRegion } from '../utils/imageUtils';
+import { ScissorsIcon } from './icons';
+
+export interface PageSplitItem {
+  file: File;
+  imageUrl: string;
+  width: number;
+  height: number;
+  regions: ImageRegion[]; // Detected panels, already in reading order
+  direction: ReadingDirection;
+}
+
+interface PageSplitterProps {
+  item: PageSplitItem;
+  position: number; // 1-based index of this page in the review queue
+  total: number;
+  onConfirm: (regions: ImageRegion[]) => void;
+  onCancel: () => void;
+}
+
+const directionLabels: Record<ReadingDirection, string> = {
+  webtoon: 'top to bottom',
+  ltr: 'left to right',
+  rtl: 'right to left (manga)',
+};
+
+const PageSplitter: React.FC<PageSplitterProps> = ({ item, position, total, onConfirm, onCancel }) => {
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const toggleRegion = (index: number) => {
+    const next = new Set(excluded);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExcluded(next);
+  };
+
+  const includedRegions = item.regions.filter((_, index) => !excluded.has(index));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="page-splitter-title">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[95vh] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 id="page-splitter-title" className="text-lg font-semibold text-white flex items-center gap-2">
+            <ScissorsIcon className="w-5 h-5" />
+            Review Detected Panels ({position} of {total}): {item.file.name}
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Panels are numbered in reading order ({directionLabels[item.direction]}). Click a panel to exclude it, click again to include it.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-gray-900/50">
+          <div className="relative w-fit mx-auto select-none">
+            <img src={item.imageUrl} alt="Page to split" className="max-h-[65vh] w-auto" draggable={false} />
+            {item.regions.map((region, index) => {
+              const isExcluded = excluded.has(index);
+              const order = includedRegions.indexOf(region) + 1;
+              return (
+                <button
+                  key={index}
+                  onClick={() => toggleRegion(index)}
+                  className={`absolute border-2 transition-colors ${isExcluded ? 'border-gray-500 bg-black/60' : 'border-pink-500 bg-pink-500/10 hover:bg-pink-500/25'}`}
+                  style={{
+                    left: `${(region.x / item.width) * 100}%`,
+                    top: `${(region.y / item.height) * 100}%`,
+                    width: `${(region.w / item.width) * 100}%`,
+                    height: `${(region.h / item.height) * 100}%`,
+                  }}
+                  aria-label={isExcluded ? 'Include panel' : `Exclude panel ${order}`}
+                >
+                  {!isExcluded && (
+                    <span className="absolute top-1 left-1 px-2 py-0.5 bg-pink-600 text-white text-sm font-bold rounded">{order}</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex flex-wrap justify-between items-center gap-2">
+          <button onClick={onCancel} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">
+            Cancel Import
+          </button>
+          <div className="flex gap-2">
+            <button onClick={() => onConfirm([])} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+              Keep as One Panel
+            </button>
+            <button
+              onClick={() => onConfirm(includedRegions)}
+              disabled={includedRegions.length === 0}
+              className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Split into {includedRegions.length}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageSplitter;
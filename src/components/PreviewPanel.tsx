@@ -3,26 +3,29 @@ import React, { useState, useEffect, useRef } from 'react';
 import { EditedClip, VideoSettings, AspectRatioOption } from '../types';
 import { DownloadIcon, ReplayIcon, VideoIcon } from './icons';
 import { renderVideo } from '../services/videoService';
+import { isAbortError } from '../utils/asyncUtils';
+import { LAYOUT_OPTIONS } from '../utils/layoutUtils';
+import { loadImageFromBlob } from '../utils/imageUtils';
+import { canvasToBase64Png } from '../utils/maskUtils';
 
 interface PreviewPanelProps {
   editedClips: EditedClip[];
   audioBlob: Blob | null;
+  videoSettings: VideoSettings;
+  onVideoSettingsChange: (settings: VideoSettings) => void;
   onReset: () => void;
 }
 
-const PreviewPanel: React.FC<PreviewPanelProps> = ({ editedClips, audioBlob, onReset }) => {
+const PreviewPanel: React.FC<PreviewPanelProps> = ({ editedClips, audioBlob, videoSettings, onVideoSettingsChange, onReset }) => {
   const [isRendering, setIsRendering] = useState(false);
   const [renderProgress, setRenderProgress] = useState(0);
   const [renderStatus, setRenderStatus] = useState('');
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const [videoSettings, setVideoSettings] = useState<VideoSettings>({
-    resolution: '1080p',
-    fps: 30,
-    aspectRatio: '16:9',
-    transition: 'fade',
-    animation: 'zoom',
-  });
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running render when leaving the page.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   // Clean up video object URL when component unmounts or videoUrl changes
   useEffect(() => {
@@ -35,7 +38,27 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ editedClips, audioBlob, onR
   
   const handleSettingChange = (setting: keyof VideoSettings, value: string | number) => {
     const finalValue = setting === 'fps' ? Number(value) : value;
-    setVideoSettings(prev => ({ ...prev, [setting]: finalValue as any }));
+    onVideoSettingsChange({ ...videoSettings, [setting]: finalValue as any });
+  };
+
+  const handleBackgroundImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // Re-encode to PNG so the renderer always gets a format it can decode.
+      const image = await loadImageFromBlob(file);
+      if (!image.naturalWidth || !image.naturalHeight) throw new Error("The image has no size.");
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')?.drawImage(image, 0, 0);
+      const { data, mimeType } = canvasToBase64Png(canvas);
+      onVideoSettingsChange({ ...videoSettings, background: 'image', backgroundImage: { imageBase64: data, mimeType } });
+    } catch (error) {
+      console.error("Error reading the background image:", error);
+      alert("Failed to read the background image. Please use a PNG, JPEG or WebP file.");
+    }
   };
 
   const handleRenderVideo = async () => {
@@ -47,25 +70,40 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ editedClips, audioBlob, onR
     setRenderProgress(0);
     setRenderStatus('Starting render process...');
     setVideoUrl(null); // Revokes old URL via useEffect cleanup
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     try {
       const videoBlob = await renderVideo(
         editedClips, 
         audioBlob,
         setRenderProgress, 
         setRenderStatus,
-        videoSettings
+        videoSettings,
+        controller.signal
       );
       const url = URL.createObjectURL(videoBlob);
       setVideoUrl(url);
     } catch (error) {
+      if (isAbortError(error)) {
+        setRenderStatus('');
+        setRenderProgress(0);
+        return;
+      }
       console.error("Error during video rendering:", error);
-      alert("Failed to render video. An error occurred. Please check the developer console for more details.");
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      alert(`Failed to render video: ${errorMessage} Please check the developer console for more details.`);
       setRenderStatus('An error occurred during rendering.');
     } finally {
+      abortControllerRef.current = null;
       setIsRendering(false);
     }
   };
 
+  const handleCancelRender = () => {
+    abortControllerRef.current?.abort();
+    setRenderStatus('Cancelling...');
+  };
+
   const handleDownload = () => {
     if (!videoUrl) return;
     const a = document.createElement('a');
@@ -101,6 +139,12 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ editedClips, audioBlob, onR
               <div className="bg-purple-600 h-2.5 rounded-full" style={{ width: `${renderProgress}%` }}></div>
             </div>
             <p className="text-sm text-gray-400 mt-2">{renderProgress > 0 ? `${renderProgress}% complete` : 'Please wait...'}</p>
+            <button
+              onClick={handleCancelRender}
+              className="mt-4 px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         ) : (
           <div className="text-center text-gray-400 p-8">
@@ -171,6 +215,59 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ editedClips, audioBlob, onR
                 <option value="none">None</option>
               </select>
             </div>
+            <div>
+              <label htmlFor="layout" className="block text-sm font-medium text-gray-300 mb-1">Crop Layout</label>
+              <select
+                id="layout"
+                value={videoSettings.layout}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleSettingChange('layout', e.target.value)}
+                className="w-full p-2 bg-gray-800 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+              >
+                {LAYOUT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">For clips that don't set their own layout.</p>
+            </div>
+            <div>
+              <label htmlFor="background" className="block text-sm font-medium text-gray-300 mb-1">Background Fill</label>
+              <select
+                id="background"
+                value={videoSettings.background}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleSettingChange('background', e.target.value)}
+                className="w-full p-2 bg-gray-800 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+              >
+                <option value="solid">Solid Colour</option>
+                <option value="blur">Blurred Panel</option>
+                <option value="image">Custom Image</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Fills the frame where the panel doesn't reach.</p>
+            </div>
+            {videoSettings.background === 'solid' && (
+              <div>
+                <label htmlFor="backgroundColor" className="block text-sm font-medium text-gray-300 mb-1">Background Colour</label>
+                <input
+                  id="backgroundColor"
+                  type="color"
+                  value={videoSettings.backgroundColor}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleSettingChange('backgroundColor', e.target.value)}
+                  className="w-full h-10 p-1 bg-gray-800 border border-gray-600 rounded-md"
+                />
+              </div>
+            )}
+            {videoSettings.background === 'image' && (
+              <div>
+                <label htmlFor="backgroundImage" className="block text-sm font-medium text-gray-300 mb-1">Background Image</label>
+                <input
+                  id="backgroundImage"
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  onChange={handleBackgroundImageChange}
+                  className="w-full text-sm text-gray-300 file:mr-3 file:px-3 file:py-1 file:rounded-md file:border-0 file:bg-gray-700 file:text-gray-200"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {videoSettings.backgroundImage ? 'Choose another file to replace the current image.' : 'No image chosen yet; the solid colour is used until you pick one.'}
+                </p>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,234 @@
+import React, { useState, useRef } from 'react';
+import { EditedClip, InpaintChoice, ManhwaPanel, TextRemovalMode } from '../types';
+import { BackIcon } from './icons';
+import { forgetPanelResults, processPanel } from '../services/animationService';
+import { fileToBase64 } from '../utils/fileUtils';
+import { acceptPanelInpaint, rejectPanelInpaint, replacePanelInClips } from '../utils/timelineUtils';
+import { usePanelPreviews } from '../hooks/usePanelPreviews';
+
+interface ReviewPanelProps {
+  clips: EditedClip[];
+  panels: ManhwaPanel[];
+  textRemoval: TextRemovalMode; // Used when regenerating a panel
+  onClipsChange: (clips: EditedClip[]) => void;
+  onBack: () => void;
+  onNext: () => void;
+}
+
+const choiceStyles: Record<InpaintChoice, { label: string, className: string }> = {
+  unreviewed: { label: 'Not reviewed', className: 'bg-gray-600 text-gray-200' },
+  accepted: { label: 'Text removed', className: 'bg-green-700 text-green-100' },
+  rejected: { label: 'Original', className: 'bg-yellow-700 text-yellow-100' },
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ clips, panels, textRemoval, onClipsChange, onBack, onNext }) => {
+  // Every panel used by a clip, in panel order, with the first clip showing it.
+  const reviewed = panels
+    .map((panel, index) => ({ panel, number: index + 1, clip: clips.find(clip => clip.panelId === panel.id) }))
+    .filter((item): item is { panel: ManhwaPanel, number: number, clip: EditedClip } => item.clip !== undefined);
+
+  const [selectedPanelId, setSelectedPanelId] = useState<string | undefined>(reviewed[0]?.panel.id);
+  const [sliderPosition, setSliderPosition] = useState(50); // Percent of the width showing the original
+  const [isBusy, setIsBusy] = useState(false);
+  const originalRef = useRef<HTMLImageElement>(null);
+  const inpaintedRef = useRef<HTMLImageElement>(null);
+  const previews = usePanelPreviews(panels);
+
+  const selectedIndex = Math.max(0, reviewed.findIndex(item => item.panel.id === selectedPanelId));
+  const selected = reviewed[selectedIndex];
+
+  if (!selected) {
+    return (
+      <div className="text-center">
+        <p>No panels to review. You can proceed to the next step.</p>
+        <div className="flex justify-between items-center pt-4">
+          <button onClick={onBack} className="px-6 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 transition-colors flex items-center gap-2">
+            <BackIcon className="w-5 h-5" /> Back
+          </button>
+          <button onClick={onNext} className="px-8 py-3 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 transition-colors">
+            Next: Adjust Crops
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { panel, clip } = selected;
+  const inpainted = clip.inpaintChoice === 'rejected' && clip.rejectedInpaint
+    ? clip.rejectedInpaint
+    : { imageBase64: clip.inpaintedImageBase64, mimeType: clip.mimeType };
+  const inpaintedUrl = `data:${inpainted.mimeType};base64,${inpainted.imageBase64}`;
+
+  const selectNext = () => {
+    const next = reviewed[selectedIndex + 1];
+    if (next) setSelectedPanelId(next.panel.id);
+  };
+
+  // How crop coordinates convert from the text-removed image to the original; they can differ in size.
+  const getScale = () => {
+    const original = originalRef.current;
+    const edited = inpaintedRef.current;
+    if (!original?.naturalWidth || !edited?.naturalWidth) return { x: 1, y: 1 };
+    return { x: original.naturalWidth / edited.naturalWidth, y: original.naturalHeight / edited.naturalHeight };
+  };
+
+  const handleAccept = () => {
+    const scale = getScale();
+    onClipsChange(acceptPanelInpaint(clips, panel.id, { x: 1 / scale.x, y: 1 / scale.y }));
+    selectNext();
+  };
+
+  const handleReject = async () => {
+    setIsBusy(true);
+    try {
+      const original = { imageBase64: await fileToBase64(panel.file), mimeType: panel.file.type };
+      onClipsChange(rejectPanelInpaint(clips, panel.id, original, getScale()));
+      selectNext();
+    } catch (error) {
+      console.error("Error switching the panel to its original image:", error);
+      alert("Failed to use the original image. Please check the console for details.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsBusy(true);
+    try {
+      onClipsChange(replacePanelInClips(clips, await processPanel(panel, { textRemoval, force: true })));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      console.error("Error regenerating the text removal:", error);
+      alert(`Could not regenerate the text removal: ${errorMessage}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForgetCache = async () => {
+    try {
+      await forgetPanelResults(panel, { data: inpainted.imageBase64, mimeType: inpainted.mimeType });
+      alert(`Forgot the cached AI results for panel ${selected.number}. The next run or Regenerate asks the AI again.`);
+    } catch (error) {
+      console.error("Error forgetting the cached results:", error);
+      alert("Failed to forget the cached results. Please check the console for details.");
+    }
+  };
+
+  const handleComparePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSliderPosition(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const unreviewedCount = reviewed.filter(item => item.clip.inpaintChoice === 'unreviewed').length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-white">Step 4: Review Text Removal</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Drag across the image to compare the original panel (left) with the text-removed version (right).
+          Keep the edit, use the original instead, or regenerate it. Your choice applies to every clip that shows the panel.
+        </p>
+      </div>
+
+      <ul className="flex gap-2 overflow-x-auto pb-2">
+        {reviewed.map(item => {
+          const style = choiceStyles[item.clip.inpaintChoice];
+          return (
+            <li key={item.panel.id} className="flex-shrink-0">
+              <button
+                onClick={() => setSelectedPanelId(item.panel.id)}
+                className={`block w-20 rounded-md overflow-hidden border-2 ${item.panel.id === panel.id ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+              >
+                <img src={previews.get(item.panel.id)} alt={`Panel ${item.number}`} className="w-20 h-20 object-cover" />
+                <span className={`block text-[10px] leading-4 ${style.className}`}>{style.label}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div
+        onPointerDown={handleComparePointer}
+        onPointerMove={handleComparePointer}
+        className="relative w-full max-w-2xl mx-auto select-none cursor-ew-resize touch-none"
+      >
+        <img ref={inpaintedRef} src={inpaintedUrl} alt={`Panel ${selected.number} with text removed`} className="w-full h-auto rounded-md block" draggable={false} />
+        <img
+          ref={originalRef}
+          src={previews.get(panel.id)}
+          alt={`Panel ${selected.number} original`}
+          className="absolute inset-0 w-full h-full rounded-md"
+          style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+          draggable={false}
+        />
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow" style={{ left: `${sliderPosition}%` }} aria-hidden="true" />
+        <span className="absolute top-2 left-2 px-2 py-0.5 text-xs bg-black/60 rounded">Original</span>
+        <span className="absolute top-2 right-2 px-2 py-0.5 text-xs bg-black/60 rounded">Text removed</span>
+      </div>
+      <div className="flex justify-center">
+        <label htmlFor="compare-slider" className="sr-only">Comparison position</label>
+        <input
+          id="compare-slider"
+          type="range"
+          min={0}
+          max={100}
+          value={sliderPosition}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSliderPosition(Number(e.target.value))}
+          className="w-full max-w-2xl accent-purple-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap justify-center items-center gap-3">
+        <span className="text-sm text-gray-400">Panel {selected.number}: {choiceStyles[clip.inpaintChoice].label}</span>
+        <button
+          onClick={handleAccept}
+          disabled={isBusy}
+          className="px-4 py-2 bg-green-700 text-white font-semibold rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors"
+        >
+          Accept
+        </button>
+        <button
+          onClick={handleReject}
+          disabled={isBusy || clip.inpaintChoice === 'rejected'}
+          className="px-4 py-2 bg-yellow-700 text-white font-semibold rounded-lg hover:bg-yellow-600 disabled:opacity-50 transition-colors"
+        >
+          Use Original
+        </button>
+        <button
+          onClick={handleRegenerate}
+          disabled={isBusy}
+          className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        >
+          {isBusy ? 'Working...' : 'Regenerate'}
+        </button>
+        <button
+          onClick={handleForgetCache}
+          disabled={isBusy}
+          className="px-4 py-2 text-sm text-gray-300 underline hover:text-white disabled:opacity-50 transition-colors"
+          title="Remove this panel's text removal and subject detection from the cache"
+        >
+          Forget Cached Result
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center pt-4">
+        <button onClick={onBack} className="px-6 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 transition-colors flex items-center gap-2">
+          <BackIcon className="w-5 h-5" /> Back
+        </button>
+        <div className="flex items-center gap-4">
+          {unreviewedCount > 0 && (
+            <span className="text-sm text-gray-400">{unreviewedCount} panel{unreviewedCount > 1 ? 's' : ''} not reviewed; they keep the text-removed image.</span>
+          )}
+          <button onClick={onNext} className="px-8 py-3 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 transition-colors">
+            Next: Adjust Crops
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
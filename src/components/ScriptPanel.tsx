@@ -1,38 +1,145 @@
 
-import React, { useEffect } from 'react';
-import { BackIcon } from './icons';
+import React, { useState, useEffect } from 'react';
+import { ManhwaPanel, ScriptBatch } from '../types';
+import { BackIcon, DownloadIcon } from './icons';
+import ScriptSegmentEditor from './ScriptSegmentEditor';
+import { parseScriptSegments, scriptToPlainText, segmentFreeFormScript } from '../utils/scriptUtils';
 
 interface ScriptPanelProps {
   script: string;
   setScript: (script: string) => void;
+  panels: ManhwaPanel[];
+  scriptBatches: ScriptBatch[]; // Batches of the last generation run, empty if the script wasn't generated this session
   onGenerate: (language: string) => void;
+  onResume: () => void;
+  onRegenerateBatch: (index: number) => void;
   onBack: () => void;
   language: string;
   setLanguage: (language: string) => void;
 }
 
-const ScriptPanel: React.FC<ScriptPanelProps> = ({ script, setScript, onGenerate, onBack, language, setLanguage }) => {
+const ScriptPanel: React.FC<ScriptPanelProps> = ({
+  script,
+  setScript,
+  panels,
+  scriptBatches,
+  onGenerate,
+  onResume,
+  onRegenerateBatch,
+  onBack,
+  language,
+  setLanguage,
+}) => {
+  const [editAsText, setEditAsText] = useState(false);
+  const segments = parseScriptSegments(script);
+  const showTextEditor = !segments || editAsText;
+  const nextBatch = scriptBatches.find(batch => batch.status !== 'done');
 
+  const handleExportText = () => {
+    const blob = new Blob([scriptToPlainText(script)], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'manhwa-script.txt';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Generate on arrival, unless an earlier run stopped before writing anything; that one is resumed from the batch list.
   useEffect(() => {
-    if (!script) {
+    if (!script && scriptBatches.length === 0) {
         onGenerate(language);
     }
-  }, [script, onGenerate, language]);
+  }, [script, scriptBatches.length, onGenerate, language]);
 
   return (
     <div className="space-y-6">
       <div>
         <h3 className="text-xl font-semibold text-white">Generated Script</h3>
         <p className="text-sm text-gray-400 mt-1">
-          Review and edit the AI-generated script below. You can also select a different language and regenerate it.
+          Review and edit the AI-generated script below. Each segment is narrated while its panel is on screen. You can also select a different language and regenerate it.
         </p>
       </div>
-      <textarea
-        value={script}
-        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setScript(e.target.value)}
-        placeholder="Generating script..."
-        className="w-full h-72 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors text-gray-200"
-      />
+      {segments && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setEditAsText(!editAsText)}
+            className="px-3 py-1 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors"
+          >
+            {editAsText ? 'Edit by Panel' : 'Edit as Text'}
+          </button>
+        </div>
+      )}
+      {showTextEditor ? (
+        <textarea
+          value={script}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setScript(e.target.value)}
+          placeholder="Generating script..."
+          className="w-full h-72 p-4 bg-gray-900 border border-gray-700 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors text-gray-200"
+        />
+      ) : (
+        <ScriptSegmentEditor script={script} panels={panels} onScriptChange={setScript} />
+      )}
+      {script && showTextEditor && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+          {segments ? (
+            <p className="text-green-400">
+              Segmented script: {segments.length} segments. Panel timings will be measured exactly from the voiceover.
+            </p>
+          ) : (
+            <p className="text-gray-400">
+              Free-form script: panel timings will be estimated by AI. Start a line with <code className="text-gray-300">[Panel N]</code> to tie the following text to panel N.
+            </p>
+          )}
+          {!segments && (
+            <button
+              onClick={() => setScript(segmentFreeFormScript(script, panels.length))}
+              className="px-3 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors whitespace-nowrap"
+            >
+              Add Panel Markers
+            </button>
+          )}
+        </div>
+      )}
+      {(scriptBatches.length > 1 || nextBatch) && (
+        <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold text-white">Script Batches</h4>
+            {nextBatch && (
+              <button
+                onClick={onResume}
+                className="px-3 py-1 bg-indigo-600 text-sm text-white rounded-md hover:bg-indigo-700 transition-colors"
+              >
+                Resume from Panel {nextBatch.start}
+              </button>
+            )}
+          </div>
+          <ul className="space-y-1 text-sm">
+            {scriptBatches.map((batch, index) => (
+              <li key={batch.start} className="flex items-center justify-between gap-2">
+                <span className="text-gray-300">
+                  Panels {batch.start}–{batch.end}:{' '}
+                  {batch.status === 'done' && <span className="text-green-400">Written</span>}
+                  {batch.status === 'pending' && <span className="text-gray-400">Not written yet</span>}
+                  {batch.status === 'failed' && <span className="text-red-400">Failed{batch.error ? ` (${batch.error})` : ''}</span>}
+                </span>
+                {batch.status === 'done' && (
+                  <button
+                    onClick={() => onRegenerateBatch(index)}
+                    disabled={!segments}
+                    title={segments ? 'Rewrite the narration for these panels only' : 'Add panel markers to the script first'}
+                    className="px-2 py-1 bg-gray-700 text-xs text-white rounded hover:bg-gray-600 disabled:opacity-40 transition-colors"
+                  >
+                    Regenerate
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       <div className="flex flex-col sm:flex-row justify-between items-center pt-4 gap-4">
         <button
           onClick={onBack}
@@ -42,6 +149,14 @@ const ScriptPanel: React.FC<ScriptPanelProps> = ({ script, setScript, onGenerate
           Back
         </button>
         <div className="w-full sm:w-auto flex items-center justify-end gap-4">
+          <button
+            onClick={handleExportText}
+            disabled={!script}
+            className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            Export Text
+          </button>
            <div>
               <label htmlFor="language" className="sr-only">Script Language</label>
               <select
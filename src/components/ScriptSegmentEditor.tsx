@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ManhwaPanel, ScriptSegment } from '../types';
+import { formatScriptSegments, parseScriptSegments } from '../utils/scriptUtils';
+import { usePanelPreviews } from '../hooks/usePanelPreviews';
+
+interface ScriptSegmentEditorProps {
+  script: string; // Segmented script in the "[Panel N]" marker format
+  panels: ManhwaPanel[];
+  onScriptChange: (script: string) => void;
+}
+
+// Segments get a local id so rows keep their identity (and focus) while being reordered.
+type EditorSegment = ScriptSegment & { id: string };
+
+const withIds = (segments: ScriptSegment[]): EditorSegment[] =>
+  segments.map(segment => ({ ...segment, id: crypto.randomUUID() }));
+
+const toScript = (rows: EditorSegment[]): string =>
+  formatScriptSegments(rows.map(({ panel, text }) => ({ panel, text })));
+
+// Where to split when the cursor isn't inside the text: the first space after the middle.
+const defaultSplitPosition = (text: string): number => {
+  const space = text.indexOf(' ', Math.floor(text.length / 2));
+  return space === -1 ? Math.floor(text.length / 2) : space;
+};
+
+const ScriptSegmentEditor: React.FC<ScriptSegmentEditorProps> = ({ script, panels, onScriptChange }) => {
+  const [rows, setRows] = useState<EditorSegment[]>(() => withIds(parseScriptSegments(script) ?? []));
+  const cursorPositions = useRef<Record<string, number>>({});
+  const previews = usePanelPreviews(panels);
+
+  // Pick up changes made outside the editor, e.g. a regenerated script or edits in plain text mode.
+  useEffect(() => {
+    if (script !== toScript(rows)) {
+      setRows(withIds(parseScriptSegments(script) ?? []));
+    }
+  }, [script]);
+
+  const updateRows = (newRows: EditorSegment[]) => {
+    setRows(newRows);
+    onScriptChange(toScript(newRows));
+  };
+
+  const updateRow = (id: string, changes: Partial<ScriptSegment>) => {
+    updateRows(rows.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rows.length) return;
+    const newRows = [...rows];
+    [newRows[index], newRows[target]] = [newRows[target], newRows[index]];
+    updateRows(newRows);
+  };
+
+  // Splits at the cursor; the second half goes to the next panel, which is usually where it belongs.
+  const splitRow = (index: number) => {
+    const row = rows[index];
+    const cursor = cursorPositions.current[row.id];
+    const position = cursor > 0 && cursor < row.text.length ? cursor : defaultSplitPosition(row.text);
+    const before = row.text.slice(0, position).trim();
+    const after = row.text.slice(position).trim();
+    if (!before || !after) return;
+    const next: EditorSegment = { id: crypto.randomUUID(), panel: Math.min(row.panel + 1, panels.length), text: after };
+    updateRows([...rows.slice(0, index), { ...row, text: before }, next, ...rows.slice(index + 1)]);
+  };
+
+  const mergeWithNext = (index: number) => {
+    const row = rows[index];
+    const next = rows[index + 1];
+    if (!next) return;
+    const merged = { ...row, text: `${row.text.trim()}\n\n${next.text.trim()}` };
+    updateRows([...rows.slice(0, index), merged, ...rows.slice(index + 2)]);
+  };
+
+  const deleteRow = (index: number) => {
+    // Keep at least one segment; an empty script would trigger regeneration.
+    if (rows.length <= 1) return;
+    updateRows(rows.filter((_, i) => i !== index));
+  };
+
+  const narratedPanels = new Set(rows.map(row => row.panel));
+  const silentPanels = panels.map((_, i) => i + 1).filter(panel => !narratedPanels.has(panel));
+
+  return (
+    <div className="space-y-3">
+      {silentPanels.length > 0 && (
+        <p className="text-sm text-yellow-300">
+          No narration for panel{silentPanels.length > 1 ? 's' : ''} {silentPanels.join(', ')}. These panels won't appear in the video.
+        </p>
+      )}
+      <ul className="max-h-[32rem] overflow-y-auto space-y-3 pr-1">
+        {rows.map((row, index) => {
+          const panel = panels[row.panel - 1];
+          return (
+            <li key={row.id} className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg flex gap-3">
+              <div className="w-24 flex-shrink-0 space-y-2">
+                {panel ? (
+                  <img src={previews.get(panel.id)} alt={`Panel ${row.panel}`} className="w-24 h-24 object-cover rounded-md" />
+                ) : (
+                  <div className="w-24 h-24 flex items-center justify-center text-xs text-red-300 bg-red-900/30 border border-red-700 rounded-md text-center p-1">
+                    Panel {row.panel} doesn't exist
+                  </div>
+                )}
+                <label htmlFor={`segment-panel-${row.id}`} className="sr-only">Panel</label>
+                <select
+                  id={`segment-panel-${row.id}`}
+                  value={row.panel}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateRow(row.id, { panel: Number(e.target.value) })}
+                  className="w-full p-1 bg-gray-800 border border-gray-600 rounded-md text-sm focus:ring-purple-500 focus:border-purple-500"
+                >
+                  {!panel && <option value={row.panel}>Panel {row.panel}</option>}
+                  {panels.map((_, i) => <option key={i} value={i + 1}>Panel {i + 1}</option>)}
+                </select>
+              </div>
+              <div className="flex-1 flex flex-col gap-2">
+                <textarea
+                  value={row.text}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateRow(row.id, { text: e.target.value })}
+                  onSelect={(e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+                    cursorPositions.current[row.id] = e.currentTarget.selectionStart;
+                  }}
+                  rows={4}
+                  className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-200 text-sm"
+                />
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <button onClick={() => moveRow(index, -1)} disabled={index === 0} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">
+                    Move Up
+                  </button>
+                  <button onClick={() => moveRow(index, 1)} disabled={index === rows.length - 1} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">
+                    Move Down
+                  </button>
+                  <button onClick={() => splitRow(index)} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600" title="Split at the cursor">
+                    Split
+                  </button>
+                  <button onClick={() => mergeWithNext(index)} disabled={index === rows.length - 1} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">
+                    Merge with Next
+                  </button>
+                  <button onClick={() => deleteRow(index)} disabled={rows.length <= 1} className="px-2 py-1 bg-red-800 rounded hover:bg-red-700 disabled:opacity-40">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ScriptSegmentEditor;
@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react';
+import { AISettings, getSettingsProblems, MAX_CONCURRENT_REQUESTS_LIMIT } from '../services/settingsService';
+import { createProvider, ProviderName } from '../services/providers';
+import { GeminiModels, DEFAULT_GEMINI_MODELS } from '../services/providers/geminiProvider';
+import { clearPanelCache, countPanelCacheEntries } from '../services/panelCache';
+
+interface SettingsPanelProps {
+  settings: AISettings;
+  notice?: string; // Why the panel was opened, e.g. a configuration problem found before a run
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const modelFields: { key: keyof GeminiModels; label: string; description: string }[] = [
+  { key: 'script', label: 'Script writing', description: 'Reads the panels and writes the narration.' },
+  { key: 'speech', label: 'Voiceover (TTS)', description: 'Turns the script into speech.' },
+  { key: 'timings', label: 'Panel timings', description: 'Decides when each panel appears.' },
+  { key: 'inpaint', label: 'Text removal (inpainting)', description: 'Removes speech bubbles and text.' },
+  { key: 'crops', label: 'Subject detection', description: 'Finds the subjects to frame in each panel.' },
+];
+
+const knownModels = [
+  'gemini-2.5-pro',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-flash-preview-tts',
+  'gemini-2.5-pro-preview-tts',
+  'gemini-2.5-flash-image',
+];
+
+type ValidationState = { status: 'idle' } | { status: 'checking' } | { status: 'done'; problems: string[] };
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, notice, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [validation, setValidation] = useState<ValidationState>({ status: 'idle' });
+  const [cacheEntries, setCacheEntries] = useState<number | null>(null);
+
+  useEffect(() => {
+    countPanelCacheEntries()
+      .then(setCacheEntries)
+      .catch(error => console.error("Could not read the panel cache:", error));
+  }, []);
+
+  const handleClearCache = async () => {
+    try {
+      await clearPanelCache();
+      setCacheEntries(0);
+    } catch (error) {
+      console.error("Could not clear the panel cache:", error);
+      alert("Failed to clear the cache. Please check the console for details.");
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const updateDraft = (changes: Partial<AISettings>) => {
+    setDraft({ ...draft, ...changes });
+    setValidation({ status: 'idle' });
+  };
+
+  const updateModel = (key: keyof GeminiModels, value: string) => {
+    updateDraft({ models: { ...draft.models, [key]: value } });
+  };
+
+  const localProblems = getSettingsProblems(draft);
+
+  const handleTest = async () => {
+    if (localProblems.length > 0) {
+      setValidation({ status: 'done', problems: localProblems });
+      return;
+    }
+    setValidation({ status: 'checking' });
+    try {
+      const problems = await createProvider(draft).validateConfig();
+      setValidation({ status: 'done', problems });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setValidation({ status: 'done', problems: [message] });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-50 p-4" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="settings-title">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 space-y-6">
+          <div>
+            <h2 id="settings-title" className="text-xl font-semibold text-white">AI Settings</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Your API key is stored only in this browser and is sent directly to the AI provider.
+            </p>
+          </div>
+
+          {notice && (
+            <div className="p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg text-sm text-yellow-200">{notice}</div>
+          )}
+
+          <div>
+            <label htmlFor="provider" className="block text-sm font-medium text-gray-300 mb-1">Provider</label>
+            <select
+              id="provider"
+              value={draft.provider}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateDraft({ provider: e.target.value as ProviderName })}
+              className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+            >
+              <option value="gemini">Google Gemini</option>
+              <option value="proxy">Backend proxy server (key stays on the server)</option>
+              <option value="mock">Offline demo (no AI, placeholder results)</option>
+            </select>
+          </div>
+
+          {draft.provider === 'proxy' && (
+            <div>
+              <label htmlFor="proxyUrl" className="block text-sm font-medium text-gray-300 mb-1">Proxy Server URL</label>
+              <input
+                id="proxyUrl"
+                type="url"
+                value={draft.proxyUrl}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDraft({ proxyUrl: e.target.value })}
+                placeholder="http://localhost:8787"
+                className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Models are configured on the server.</p>
+            </div>
+          )}
+
+          {draft.provider === 'gemini' && (
+            <>
+              <div>
+                <label htmlFor="apiKey" className="block text-sm font-medium text-gray-300 mb-1">Gemini API Key</label>
+                <div className="flex gap-2">
+                  <input
+                    id="apiKey"
+                    type={showKey ? 'text' : 'password'}
+                    value={draft.apiKey}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDraft({ apiKey: e.target.value })}
+                    placeholder="AIza..."
+                    autoComplete="off"
+                    className="flex-1 p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+                  />
+                  <button onClick={() => setShowKey(!showKey)} className="px-3 py-2 bg-gray-700 text-sm rounded-md hover:bg-gray-600">
+                    {showKey ? 'Hide' : 'Show'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-sm font-medium text-gray-300">Models</h3>
+                  <button onClick={() => updateDraft({ models: DEFAULT_GEMINI_MODELS })} className="text-xs text-purple-400 hover:text-purple-300">
+                    Reset to defaults
+                  </button>
+                </div>
+                <datalist id="known-models">
+                  {knownModels.map(model => <option key={model} value={model} />)}
+                </datalist>
+                {modelFields.map(({ key, label, description }) => (
+                  <div key={key} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+                    <label htmlFor={`model-${key}`} className="text-sm text-gray-300">
+                      {label}
+                      <span className="block text-xs text-gray-500">{description}</span>
+                    </label>
+                    <input
+                      id={`model-${key}`}
+                      list="known-models"
+                      value={draft.models[key]}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateModel(key, e.target.value)}
+                      className="p-2 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-purple-500 focus:border-purple-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div>
+            <label htmlFor="maxConcurrentRequests" className="block text-sm font-medium text-gray-300 mb-1">Parallel Requests</label>
+            <input
+              id="maxConcurrentRequests"
+              type="number"
+              min={1}
+              max={MAX_CONCURRENT_REQUESTS_LIMIT}
+              value={draft.maxConcurrentRequests}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDraft({ maxConcurrentRequests: Number(e.target.value) })}
+              className="w-24 p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">How many panels or voiceover parts are sent at once. Lower it if you hit rate limits.</p>
+          </div>
+
+          <div className="flex justify-between items-center p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+            <div>
+              <h3 className="text-sm font-medium text-gray-300">Cached AI Edits</h3>
+              <p className="text-xs text-gray-500">
+                Text removal and subject detection results are reused for unchanged panels
+                {cacheEntries !== null && ` (${cacheEntries} stored)`}.
+              </p>
+            </div>
+            <button
+              onClick={handleClearCache}
+              disabled={!cacheEntries}
+              className="px-3 py-1 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Clear Cache
+            </button>
+          </div>
+
+          {validation.status === 'checking' && <p className="text-sm text-gray-400">Checking configuration...</p>}
+          {validation.status === 'done' && validation.problems.length === 0 && (
+            <p className="text-sm text-green-400">Configuration looks good.</p>
+          )}
+          {validation.status === 'done' && validation.problems.length > 0 && (
+            <ul className="p-3 bg-red-900/30 border border-red-700 rounded-lg text-sm text-red-200 list-disc list-inside space-y-1">
+              {validation.problems.map((problem, index) => <li key={index}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-between items-center pt-2">
+            <button
+              onClick={handleTest}
+              disabled={validation.status === 'checking'}
+              className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 disabled:bg-gray-600 transition-colors"
+            >
+              Test Configuration
+            </button>
+            <div className="flex gap-2">
+              <button onClick={onClose} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={() => onSave(draft)}
+                disabled={localProblems.length > 0}
+                className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -2,13 +2,22 @@ import React from 'react';
 
 interface SpinnerProps {
   message: string;
+  onCancel?: () => void; // Shows a Cancel button when given
 }
 
-const Spinner: React.FC<SpinnerProps> = ({ message }) => {
+const Spinner: React.FC<SpinnerProps> = ({ message, onCancel }) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex flex-col justify-center items-center z-50">
       <div className="w-16 h-16 border-4 border-t-purple-500 border-gray-600 rounded-full animate-spin"></div>
       <p className="mt-4 text-lg text-white">{message}</p>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 px-4 py-2 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
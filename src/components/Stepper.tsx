@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { UploadIcon, ScriptIcon, MicIcon, PlayIcon, CropIcon } from './icons';
+import { UploadIcon, ScriptIcon, MicIcon, PlayIcon, CropIcon, EyeIcon } from './icons';
 
 interface StepperProps {
   currentStep: number;
@@ -10,8 +10,9 @@ const steps = [
   { id: 1, name: 'Upload Panels', icon: UploadIcon },
   { id: 2, name: 'Generate Script', icon: ScriptIcon },
   { id: 3, name: 'Create Voiceover', icon: MicIcon },
-  { id: 4, name: 'Adjust Crops', icon: CropIcon },
-  { id: 5, name: 'Preview & Export', icon: PlayIcon },
+  { id: 4, name: 'Review Edits', icon: EyeIcon },
+  { id: 5, name: 'Adjust Crops', icon: CropIcon },
+  { id: 6, name: 'Preview & Export', icon: PlayIcon },
 ];
 
 const Stepper: React.FC<StepperProps> = ({ currentStep }) => {
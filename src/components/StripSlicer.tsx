@@ -0,0 +1,97 @@
+import React, { useState, useRef } from 'react';
+import { ScissorsIcon } from './icons';
+
+export interface StripSliceItem {
+  file: File;
+  imageUrl: string;
+  width: number;
+  height: number;
+  suggestedCuts: number[];
+}
+
+interface StripSlicerProps {
+  item: StripSliceItem;
+  position: number; // 1-based index of this strip in the review queue
+  total: number;
+  onConfirm: (cuts: number[]) => void;
+  onCancel: () => void;
+}
+
+// Cuts closer than this (in image pixels) to an existing cut or an edge are ignored.
+const MIN_CUT_SPACING = 20;
+
+const StripSlicer: React.FC<StripSlicerProps> = ({ item, position, total, onConfirm, onCancel }) => {
+  const [cuts, setCuts] = useState<number[]>(item.suggestedCuts);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!imageRef.current) return;
+    const rect = imageRef.current.getBoundingClientRect();
+    const y = Math.round(((e.clientY - rect.top) / rect.height) * item.height);
+    if (y < MIN_CUT_SPACING || y > item.height - MIN_CUT_SPACING) return;
+    if (cuts.some(c => Math.abs(c - y) < MIN_CUT_SPACING)) return;
+    setCuts([...cuts, y].sort((a, b) => a - b));
+  };
+
+  const removeCut = (e: React.MouseEvent<HTMLButtonElement>, cut: number) => {
+    e.stopPropagation();
+    setCuts(cuts.filter(c => c !== cut));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="strip-slicer-title">
+      <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[95vh] flex flex-col">
+        <div className="p-4 border-b border-gray-700">
+          <h2 id="strip-slicer-title" className="text-lg font-semibold text-white flex items-center gap-2">
+            <ScissorsIcon className="w-5 h-5" />
+            Review Cut Lines ({position} of {total}): {item.file.name}
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Click on the strip to add a cut line. Click the &times; on a line to merge the panels around it. This strip will become {cuts.length + 1} panel{cuts.length === 0 ? '' : 's'}.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-gray-900/50">
+          <div className="relative w-full max-w-sm mx-auto cursor-crosshair select-none" onClick={handleImageClick}>
+            <img ref={imageRef} src={item.imageUrl} alt="Strip to slice" className="w-full h-auto" draggable={false} />
+            {cuts.map((cut, index) => (
+              <div
+                key={cut}
+                className="absolute left-0 right-0 border-t-2 border-dashed border-pink-500"
+                style={{ top: `${(cut / item.height) * 100}%` }}
+              >
+                <span className="absolute -top-3 left-1 px-1.5 bg-pink-600 text-white text-xs font-bold rounded">{index + 2}</span>
+                <button
+                  onClick={(e) => removeCut(e, cut)}
+                  className="absolute -top-3 right-1 w-6 h-6 bg-gray-800 border border-pink-500 text-white rounded-full leading-none hover:bg-pink-600"
+                  aria-label="Remove cut line"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex flex-wrap justify-between items-center gap-2">
+          <button onClick={onCancel} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg hover:bg-gray-700 transition-colors">
+            Cancel Import
+          </button>
+          <div className="flex gap-2">
+            <button onClick={() => setCuts(item.suggestedCuts)} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+              Reset
+            </button>
+            <button onClick={() => onConfirm([])} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors">
+              Keep as One Panel
+            </button>
+            <button onClick={() => onConfirm(cuts)} className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 transition-colors">
+              Slice into {cuts.length + 1}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StripSlicer;
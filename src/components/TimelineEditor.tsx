@@ -0,0 +1,343 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { EditedClip, ManhwaPanel, TextRemovalMode } from '../types';
+import { computeWaveformPeaks, decodeAudioBlob } from '../utils/audioUtils';
+import {
+  duplicateClip,
+  findClipAtTime,
+  getClipsEndTime,
+  moveClipBoundary,
+  replacePanelInClips,
+  splitClip,
+  swapClipPanel,
+} from '../utils/timelineUtils';
+import { processPanel } from '../services/animationService';
+
+interface TimelineEditorProps {
+  clips: EditedClip[];
+  panels: ManhwaPanel[];
+  audioBlob: Blob | null;
+  activeClipIndex: number;
+  onSelectClip: (index: number) => void;
+  onClipsChange: (clips: EditedClip[]) => void;
+  textRemoval: TextRemovalMode; // Used for panels that no clip has shown yet
+}
+
+const WAVEFORM_HEIGHT = 64;
+const CLIP_TRACK_HEIGHT = 56;
+// Peaks are computed once at this resolution and stretched to the current zoom.
+const PEAKS_PER_SECOND = 50;
+// Browsers cap canvas sizes, so long narrations at high zoom are drawn at a lower resolution and stretched.
+const MAX_CANVAS_WIDTH = 16384;
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const TimelineEditor: React.FC<TimelineEditorProps> = ({ clips, panels, audioBlob, activeClipIndex, onSelectClip, onClipsChange, textRemoval }) => {
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [audioDuration, setAudioDuration] = useState(0);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(40);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [draggingBoundary, setDraggingBoundary] = useState<number | null>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [preparingPanel, setPreparingPanel] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const clipsEndTime = getClipsEndTime(clips);
+  const timelineDuration = Math.max(audioDuration, clipsEndTime);
+  const timelineWidth = Math.max(1, Math.ceil(timelineDuration * pixelsPerSecond));
+
+  // Decode the narration once for the waveform and set up an audio element for playback.
+  useEffect(() => {
+    if (!audioBlob) return;
+    let cancelled = false;
+    decodeAudioBlob(audioBlob)
+      .then(buffer => {
+        if (cancelled) return;
+        setAudioDuration(buffer.duration);
+        setPeaks(computeWaveformPeaks(buffer, Math.max(1, Math.ceil(buffer.duration * PEAKS_PER_SECOND))));
+      })
+      .catch(error => console.error("Could not decode the narration for the waveform:", error));
+
+    const url = URL.createObjectURL(audioBlob);
+    const audio = new Audio(url);
+    audio.onended = () => setIsPlaying(false);
+    audioRef.current = audio;
+    return () => {
+      cancelled = true;
+      audio.pause();
+      audioRef.current = null;
+      URL.revokeObjectURL(url);
+    };
+  }, [audioBlob]);
+
+  // Follow the audio position while playing.
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = Math.min(timelineWidth, MAX_CANVAS_WIDTH);
+    canvas.height = WAVEFORM_HEIGHT;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!peaks || timelineDuration <= 0) return;
+    ctx.fillStyle = '#a78bfa';
+    const middle = WAVEFORM_HEIGHT / 2;
+    const audioWidth = (audioDuration / timelineDuration) * canvas.width;
+    for (let x = 0; x < audioWidth; x++) {
+      const peak = peaks[Math.min(peaks.length - 1, Math.floor((x / audioWidth) * peaks.length))];
+      const barHeight = Math.max(1, peak * WAVEFORM_HEIGHT);
+      ctx.fillRect(x, middle - barHeight / 2, 1, barHeight);
+    }
+  }, [peaks, audioDuration, timelineDuration, timelineWidth]);
+
+  const timeAtClientX = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(timelineDuration, (clientX - rect.left) / pixelsPerSecond));
+  };
+
+  const seek = (time: number) => {
+    setCurrentTime(time);
+    if (audioRef.current) {
+      audioRef.current.currentTime = Math.min(time, audioDuration);
+    }
+  };
+
+  // Boundary dragging and scrubbing both track the pointer on the window, so they keep working outside the track.
+  useEffect(() => {
+    if (draggingBoundary === null && !isScrubbing) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      const time = timeAtClientX(e.clientX);
+      if (draggingBoundary !== null) {
+        onClipsChange(moveClipBoundary(clips, draggingBoundary, time));
+      } else {
+        seek(time);
+      }
+    };
+    const handlePointerUp = () => {
+      setDraggingBoundary(null);
+      setIsScrubbing(false);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [draggingBoundary, isScrubbing, clips, onClipsChange, pixelsPerSecond, timelineDuration]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+    } else {
+      if (currentTime >= audioDuration) audio.currentTime = 0;
+      audio.play().then(() => setIsPlaying(true)).catch(error => console.error("Could not play the narration:", error));
+    }
+  };
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    setIsScrubbing(true);
+    seek(timeAtClientX(e.clientX));
+  };
+
+  const activeClip = clips[activeClipIndex];
+  const activeClipStart = clips.slice(0, activeClipIndex).reduce((sum, clip) => sum + clip.duration, 0);
+  const playheadInActiveClip = findClipAtTime(clips, currentTime) === activeClipIndex;
+
+  const handleSplit = () => {
+    onClipsChange(splitClip(clips, activeClipIndex, currentTime));
+  };
+
+  const handleDuplicate = () => {
+    onClipsChange(duplicateClip(clips, activeClipIndex));
+    onSelectClip(activeClipIndex + 1);
+  };
+
+  const handleSwapPanel = async (panelId: string) => {
+    // Reuse the edits of another clip showing this panel; otherwise prepare the panel the same way animatePanels does.
+    const existing = clips.find(clip => clip.panelId === panelId);
+    if (existing) {
+      onClipsChange(swapClipPanel(clips, activeClipIndex, existing));
+      return;
+    }
+    const panel = panels.find(p => p.id === panelId);
+    if (!panel) return;
+    setPreparingPanel(true);
+    try {
+      onClipsChange(swapClipPanel(clips, activeClipIndex, await processPanel(panel, { textRemoval })));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      console.error("Error preparing panel for the clip:", error);
+      alert(`Could not prepare the panel: ${errorMessage}`);
+    } finally {
+      setPreparingPanel(false);
+    }
+  };
+
+  // Runs the AI edits for the selected clip's panel again, ignoring the cache, and updates every clip showing it.
+  const handleRedoPanel = async () => {
+    const panel = panels.find(p => p.id === activeClip?.panelId);
+    if (!panel) return;
+    setPreparingPanel(true);
+    try {
+      onClipsChange(replacePanelInClips(clips, await processPanel(panel, { textRemoval, force: true })));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      console.error("Error redoing AI edits for the panel:", error);
+      alert(`Could not redo the AI edits: ${errorMessage}`);
+    } finally {
+      setPreparingPanel(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={togglePlayback}
+          disabled={!audioBlob}
+          className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 disabled:bg-gray-600 transition-colors"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <span className="text-sm text-gray-300 font-mono">{formatTime(currentTime)} / {formatTime(audioDuration)}</span>
+        <label className="flex items-center gap-2 text-sm text-gray-400 ml-auto">
+          Zoom
+          <input
+            type="range"
+            min={10}
+            max={200}
+            value={pixelsPerSecond}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPixelsPerSecond(Number(e.target.value))}
+            className="accent-purple-500"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto bg-gray-900/50 border border-gray-700 rounded-lg">
+        <div ref={trackRef} className="relative select-none" style={{ width: timelineWidth, height: WAVEFORM_HEIGHT + CLIP_TRACK_HEIGHT }}>
+          <div className="absolute top-0 left-0 cursor-text" style={{ width: timelineWidth, height: WAVEFORM_HEIGHT }} onPointerDown={handleScrubStart}>
+            <canvas ref={canvasRef} style={{ width: timelineWidth, height: WAVEFORM_HEIGHT }} />
+          </div>
+
+          {clips.map((clip, index) => {
+            const start = clips.slice(0, index).reduce((sum, c) => sum + c.duration, 0);
+            const panelNumber = panels.findIndex(p => p.id === clip.panelId) + 1;
+            return (
+              <div
+                key={index}
+                onClick={() => {
+                  onSelectClip(index);
+                  seek(start);
+                }}
+                className={`absolute overflow-hidden rounded-md border-2 cursor-pointer bg-gray-800 bg-cover bg-center ${
+                  index === activeClipIndex ? 'border-purple-400' : 'border-gray-600 hover:border-gray-400'
+                }`}
+                style={{
+                  left: start * pixelsPerSecond,
+                  width: Math.max(2, clip.duration * pixelsPerSecond),
+                  top: WAVEFORM_HEIGHT + 4,
+                  height: CLIP_TRACK_HEIGHT - 8,
+                  backgroundImage: `url(data:${clip.mimeType};base64,${clip.inpaintedImageBase64})`,
+                }}
+                title={`Clip ${index + 1}: panel ${panelNumber || '?'}, ${clip.duration.toFixed(2)}s`}
+              >
+                <span className="absolute top-0 left-0 px-1 text-xs bg-black/60 text-white">{index + 1}</span>
+              </div>
+            );
+          })}
+
+          {clips.map((_, index) => {
+            const end = clips.slice(0, index + 1).reduce((sum, c) => sum + c.duration, 0);
+            return (
+              <div
+                key={`boundary-${index}`}
+                onPointerDown={(e: React.PointerEvent<HTMLDivElement>) => {
+                  e.preventDefault();
+                  setDraggingBoundary(index + 1);
+                }}
+                className="absolute w-2 -ml-1 cursor-ew-resize group"
+                style={{ left: end * pixelsPerSecond, top: WAVEFORM_HEIGHT, height: CLIP_TRACK_HEIGHT }}
+                title="Drag to move the boundary"
+              >
+                <div className="mx-auto w-0.5 h-full bg-gray-400 group-hover:bg-white" />
+              </div>
+            );
+          })}
+
+          {audioDuration > 0 && clipsEndTime > audioDuration && (
+            <div
+              className="absolute top-0 bg-red-900/20 pointer-events-none"
+              style={{ left: audioDuration * pixelsPerSecond, width: (clipsEndTime - audioDuration) * pixelsPerSecond, height: WAVEFORM_HEIGHT + CLIP_TRACK_HEIGHT }}
+            />
+          )}
+
+          <div className="absolute top-0 w-0.5 bg-pink-500 pointer-events-none" style={{ left: currentTime * pixelsPerSecond, height: WAVEFORM_HEIGHT + CLIP_TRACK_HEIGHT }} />
+        </div>
+      </div>
+
+      {audioDuration > 0 && Math.abs(clipsEndTime - audioDuration) > 0.05 && (
+        <p className="text-xs text-yellow-300">
+          The clips run {formatTime(clipsEndTime)} but the narration is {formatTime(audioDuration)} long.
+        </p>
+      )}
+
+      {activeClip && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">
+            Clip {activeClipIndex + 1}: {activeClipStart.toFixed(2)}s - {(activeClipStart + activeClip.duration).toFixed(2)}s
+          </span>
+          <button
+            onClick={handleSplit}
+            disabled={!playheadInActiveClip}
+            title="Split the selected clip at the playhead"
+            className="px-3 py-1 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-40"
+          >
+            Split at Playhead
+          </button>
+          <button onClick={handleDuplicate} className="px-3 py-1 bg-gray-700 rounded-md hover:bg-gray-600">
+            Duplicate
+          </button>
+          <label htmlFor="clip-panel" className="text-gray-400 ml-2">Panel</label>
+          <select
+            id="clip-panel"
+            value={activeClip.panelId}
+            disabled={preparingPanel}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleSwapPanel(e.target.value)}
+            className="p-1 bg-gray-800 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+          >
+            {panels.map((panel, i) => <option key={panel.id} value={panel.id}>Panel {i + 1}</option>)}
+          </select>
+          <button
+            onClick={handleRedoPanel}
+            disabled={preparingPanel}
+            title="Run text removal and subject detection again for this panel, replacing the cached result"
+            className="px-3 py-1 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-40"
+          >
+            Redo AI Edits
+          </button>
+          {preparingPanel && <span className="text-gray-400">Preparing panel...</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelineEditor;
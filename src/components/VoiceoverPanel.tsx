@@ -1,9 +1,20 @@
-import React, { useState } from 'react';
-import { VoiceOption } from '../types';
+import React from 'react';
+import { TextRemovalMode, VoiceOption, VoiceoverChunk } from '../types';
 import { BackIcon, MicIcon } from './icons';
+import { TimingOptions } from '../utils/timingUtils';
 
 interface VoiceoverPanelProps {
   script: string;
+  voice: VoiceOption;
+  onVoiceChange: (voice: VoiceOption) => void;
+  chunks: VoiceoverChunk[]; // Parts of the last voiceover run, empty before the first one
+  chunkPause: number; // Seconds of silence inserted between parts
+  onChunkPauseChange: (seconds: number) => void;
+  timingOptions: TimingOptions;
+  onTimingOptionsChange: (options: TimingOptions) => void;
+  textRemoval: TextRemovalMode;
+  onTextRemovalChange: (mode: TextRemovalMode) => void;
+  onRetryChunk: (index: number) => void;
   onGenerate: (voice: VoiceOption) => void;
   onBack: () => void;
 }
@@ -26,8 +37,29 @@ const voiceCategories: { category: string, voices: { name: VoiceOption, descript
     }
 ];
 
-const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ script, onGenerate, onBack }) => {
-  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>('Kore');
+const chunkStatusStyles: Record<VoiceoverChunk['status'], { label: string, className: string }> = {
+  pending: { label: 'Waiting', className: 'text-gray-400' },
+  synthesizing: { label: 'Generating...', className: 'text-purple-300' },
+  done: { label: 'Done', className: 'text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+};
+
+const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({
+  script,
+  voice: selectedVoice,
+  onVoiceChange,
+  chunks,
+  chunkPause,
+  onChunkPauseChange,
+  timingOptions,
+  onTimingOptionsChange,
+  textRemoval,
+  onTextRemovalChange,
+  onRetryChunk,
+  onGenerate,
+  onBack,
+}) => {
+  const hasPartialRun = chunks.some(chunk => chunk.status === 'done') && chunks.some(chunk => chunk.status !== 'done');
 
   return (
     <div className="space-y-6">
@@ -51,7 +83,7 @@ const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ script, onGenerate, onB
               {voices.map((voice) => (
                 <div
                   key={voice.name}
-                  onClick={() => setSelectedVoice(voice.name)}
+                  onClick={() => onVoiceChange(voice.name)}
                   className={`p-4 border rounded-lg cursor-pointer transition-all ${
                     selectedVoice === voice.name
                       ? 'border-purple-500 bg-purple-900/30 ring-2 ring-purple-500'
@@ -67,6 +99,92 @@ const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ script, onGenerate, onB
         ))}
       </div>
       
+      <div>
+        <label htmlFor="chunkPause" className="block text-sm font-medium text-gray-300 mb-1">
+          Pause between parts: {chunkPause.toFixed(1)}s
+        </label>
+        <input
+          id="chunkPause"
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={chunkPause}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChunkPauseChange(Number(e.target.value))}
+          className="w-full sm:w-64 accent-purple-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">Long scripts are voiced in several parts and joined with this pause.</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Show each panel for at least
+          <input
+            type="number"
+            min={0.2}
+            max={10}
+            step={0.1}
+            value={timingOptions.minDuration}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onTimingOptionsChange({ ...timingOptions, minDuration: Math.max(0.2, Number(e.target.value) || 0.2) })}
+            className="w-20 p-1 bg-gray-900 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+          />
+          seconds
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={timingOptions.ensureAllPanels}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onTimingOptionsChange({ ...timingOptions, ensureAllPanels: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Make sure every panel appears
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="textRemoval" className="block text-sm font-medium text-gray-300 mb-1">Text removal</label>
+        <select
+          id="textRemoval"
+          value={textRemoval}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onTextRemovalChange(e.target.value as TextRemovalMode)}
+          className="w-full sm:w-64 p-2 bg-gray-800 border border-gray-600 rounded-md focus:ring-purple-500 focus:border-purple-500"
+        >
+          <option value="ai">AI inpaint</option>
+          <option value="local">Local bubble removal</option>
+          <option value="keep">Keep original text</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Local bubble removal blanks out speech bubbles in the browser without the AI. It is also used for panels where the AI fails.
+        </p>
+      </div>
+
+      {chunks.length > 1 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-300">Voiceover Parts</h4>
+          <ul className="max-h-64 overflow-y-auto space-y-2">
+            {chunks.map((chunk, index) => (
+              <li key={index} className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-semibold text-gray-400">
+                    Part {index + 1} <span className={chunkStatusStyles[chunk.status].className}>· {chunkStatusStyles[chunk.status].label}</span>
+                  </p>
+                  <p className="text-sm text-gray-300 truncate">{chunk.text}</p>
+                  {chunk.error && <p className="text-xs text-red-300 mt-1">{chunk.error}</p>}
+                </div>
+                {chunk.status === 'failed' && (
+                  <button
+                    onClick={() => onRetryChunk(index)}
+                    className="px-3 py-1 bg-gray-700 text-sm text-white rounded-md hover:bg-gray-600 transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
       <div className="flex justify-between items-center pt-4">
         <button
           onClick={onBack}
@@ -81,7 +199,7 @@ const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ script, onGenerate, onB
           className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-lg shadow-md hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
         >
           <MicIcon className="w-5 h-5" />
-          Generate Voiceover
+          {hasPartialRun ? 'Resume Voiceover' : 'Generate Voiceover'}
         </button>
       </div>
     </div>
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { ManhwaPanel } from '../types';
+
+// Object URLs for showing panels, by panel id, owned by the calling component and revoked when it unmounts.
+// panel.preview can't be used after the upload step: that step revokes it when it unmounts.
+export const usePanelPreviews = (panels: ManhwaPanel[]): Map<string, string> => {
+  const [previews, setPreviews] = useState<Map<string, string>>(() => new Map());
+
+  useEffect(() => {
+    const urls = new Map(panels.map(panel => [panel.id, URL.createObjectURL(panel.file)]));
+    setPreviews(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [panels]);
+
+  return previews;
+};
@@ -1,98 +1,87 @@
-
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ManhwaPanel, PanelTiming, EditedClip, CropRect } from '../types';
+import { ManhwaPanel, PanelTiming, EditedClip, CropRect, TextRemovalMode } from '../types';
 import { fileToBase64 } from "../utils/fileUtils";
+import { getImageData, loadImageFromBlob } from "../utils/imageUtils";
+import { removeSpeechBubbles } from "../utils/bubbleRemoval";
+import { canvasToBase64Png } from "../utils/maskUtils";
+import { isAbortError, mapWithConcurrency } from "../utils/asyncUtils";
+import { getAIProvider, InlineImage, withRetries } from './providers';
+import { forgetCachedResult, withPanelCache } from './panelCache';
+
+type PanelEdits = Pick<EditedClip, 'panelId' | 'inpaintedImageBase64' | 'mimeType' | 'crops' | 'inpaintChoice' | 'rejectedInpaint'>;
+
+// A panel whose text removal failed even after retries, so a fallback was used for its clips.
+export interface PanelFailure {
+    panelId: string;
+    panelNumber: number; // 1-based
+    message: string;
+    fallback: TextRemovalMode; // What the clips use instead
+}
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
-// AI call to remove text from an image and inpaint the background
-async function inpaintImage(panel: ManhwaPanel): Promise<{ base64Data: string, mimeType: string }> {
-    const model = 'gemini-2.5-flash-image';
-    const base64Data = await fileToBase64(panel.file);
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: {
-            parts: [
-                {
-                    inlineData: { data: base64Data, mimeType: panel.file.type },
-                },
-                {
-                    text: `
-Analyze this comic panel. Your task is to remove all text, including speech bubbles, narration boxes, and sound effect text.
-Then, seamlessly fill in the empty areas by extending the surrounding artwork (inpaint).
-Pay close attention to the existing art style, including line work, coloring, shading, and textures.
-The inpainted area should blend perfectly and be indistinguishable from the original artist's work.
-The output should be ONLY the modified image with no text remaining. Do not add any extra elements or alter the original art.
-`,
-                },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
+// What to try when a text removal mode fails: local bubble removal if the AI fails, the original image after that.
+const TEXT_REMOVAL_FALLBACKS: Record<TextRemovalMode, TextRemovalMode | null> = {
+    ai: 'local',
+    local: 'keep',
+    keep: null,
+};
 
-    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-    const inlineData = imagePart?.inlineData;
+// AI call to remove text from an image and inpaint the background. Unchanged panels reuse the cached result.
+async function inpaintImage(
+    panel: ManhwaPanel,
+    force = false,
+    onRetry?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<{ base64Data: string, mimeType: string }> {
+    const image = { data: await fileToBase64(panel.file), mimeType: panel.file.type };
+    const result = await withPanelCache(
+        'inpaint',
+        image,
+        () => withRetries(() => getAIProvider().inpaintImage(image, signal), onRetry, signal),
+        force
+    );
+    return { base64Data: result.data, mimeType: result.mimeType };
+}
 
-    if (!inlineData || typeof inlineData.data !== 'string' || typeof inlineData.mimeType !== 'string') {
-        throw new Error("AI failed to return an inpainted image with valid data and mimeType.");
+// Clears speech bubbles without the AI by filling each detected bubble with its background colour.
+async function removeTextLocally(panel: ManhwaPanel): Promise<{ base64Data: string, mimeType: string }> {
+    // panel.preview is revoked once the upload step unmounts, so decode the file itself.
+    const img = await loadImageFromBlob(panel.file);
+    const imageData = getImageData(img);
+    removeSpeechBubbles(imageData);
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not create a 2D canvas context.");
     }
-
-    return { base64Data: inlineData.data, mimeType: inlineData.mimeType };
+    ctx.putImageData(imageData, 0, 0);
+    const { data, mimeType } = canvasToBase64Png(canvas);
+    return { base64Data: data, mimeType };
 }
 
 // AI call to get crop coordinates for key subjects in the panel
-async function getSubjectCrops(inpaintedBase64: string, mimeType: string, imageUrl: string): Promise<CropRect[]> {
-    const model = 'gemini-2.5-flash';
-
+// A cancelled request rejects instead of falling back to the full image.
+async function getSubjectCrops(
+    inpaintedBase64: string,
+    mimeType: string,
+    imageUrl: string,
+    force = false,
+    signal?: AbortSignal
+): Promise<CropRect[]> {
     return new Promise((resolve, reject) => {
         const img = new Image();
         img.onload = async () => {
             const { naturalWidth, naturalHeight } = img;
-
-            const response = await ai.models.generateContent({
-                model,
-                contents: {
-                    parts: [
-                        { text: `
-                            Analyze the composition of this comic panel, which is ${naturalWidth}px wide and ${naturalHeight}px tall. Your goal is to identify the main subjects or areas of interest.
-                            - Subjects can be characters, important objects, or specific actions.
-                            - Identify between 1 and 3 of the most important subjects.
-                            - For each subject, provide a bounding box that tightly crops around it.
-
-                            Return a JSON array of objects. Each object represents a crop and must contain "x", "y", "w" (width), and "h" (height) as integer pixel values.
-                            The origin (0,0) is the top-left corner of the image.
-                            The coordinates must be within the image bounds (0 to ${naturalWidth} for x, 0 to ${naturalHeight} for y).
-                            Provide only the raw JSON array as your response.
-                        `},
-                        {
-                            inlineData: { data: inpaintedBase64, mimeType: mimeType },
-                        }
-                    ]
-                },
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                x: { type: Type.INTEGER },
-                                y: { type: Type.INTEGER },
-                                w: { type: Type.INTEGER },
-                                h: { type: Type.INTEGER },
-                            },
-                            required: ["x", "y", "w", "h"]
-                        }
-                    }
-                }
-            });
+            const fullImageCrop = (): CropRect[] => [{ x: 0, y: 0, w: naturalWidth, h: naturalHeight, id: crypto.randomUUID() }];
 
             try {
-                const jsonText = (response.text || '[]').trim();
-                const crops: Omit<CropRect, 'id'>[] = JSON.parse(jsonText);
+                const image = { data: inpaintedBase64, mimeType };
+                const crops = await withPanelCache(
+                    'crops',
+                    image,
+                    () => withRetries(() => getAIProvider().detectSubjectCrops(image, naturalWidth, naturalHeight, signal), undefined, signal),
+                    force
+                );
                  // Validate and clamp crop values to be within image boundaries
                 const validatedCrops = crops.map(c => {
                     const x = Math.max(0, c.x);
@@ -102,17 +91,16 @@ async function getSubjectCrops(inpaintedBase64: string, mimeType: string, imageU
                     return { x, y, w, h, id: crypto.randomUUID() };
                 }).filter(c => c.w > 0 && c.h > 0); // Filter out invalid crops
 
-                if(validatedCrops.length === 0) {
-                     // Fallback to a full image crop if validation fails
-                     resolve([{ x: 0, y: 0, w: naturalWidth, h: naturalHeight, id: crypto.randomUUID() }]);
-                } else {
-                    resolve(validatedCrops);
-                }
+                // Fallback to a full image crop if validation fails
+                resolve(validatedCrops.length === 0 ? fullImageCrop() : validatedCrops);
             } catch(e) {
-                console.error("Failed to parse crop coordinates from AI", e);
-                console.error("Received text:", response.text);
+                if (isAbortError(e)) {
+                    reject(e);
+                    return;
+                }
+                console.error("Failed to get crop coordinates from AI", e);
                 // Fallback to a full image crop on error
-                resolve([{ x: 0, y: 0, w: naturalWidth, h: naturalHeight, id: crypto.randomUUID() }]);
+                resolve(fullImageCrop());
             }
         };
         img.onerror = () => {
@@ -123,32 +111,82 @@ async function getSubjectCrops(inpaintedBase64: string, mimeType: string, imageU
 }
 
 
+export interface ProcessPanelOptions {
+    textRemoval?: TextRemovalMode; // Defaults to 'ai'
+    force?: boolean; // Ignore and replace cached AI results
+    onRetry?: (message: string) => void;
+    signal?: AbortSignal;
+}
+
+// Removes the text from a panel and finds its subjects, giving everything a clip needs besides timing.
+export const processPanel = async (panel: ManhwaPanel, options: ProcessPanelOptions = {}): Promise<PanelEdits> => {
+    const { textRemoval = 'ai', force = false, onRetry, signal } = options;
+    const { base64Data: inpainted, mimeType } = textRemoval === 'ai'
+        ? await inpaintImage(panel, force, onRetry, signal)
+        : textRemoval === 'local'
+            ? await removeTextLocally(panel)
+            : { base64Data: await fileToBase64(panel.file), mimeType: panel.file.type };
+    const imageUrl = `data:${mimeType};base64,${inpainted}`;
+    const crops = await getSubjectCrops(inpainted, mimeType, imageUrl, force, signal);
+    return { panelId: panel.id, inpaintedImageBase64: inpainted, mimeType, crops, inpaintChoice: 'unreviewed' };
+};
+
+// Repaints the masked areas of a panel image, e.g. bubble remnants the automatic text removal missed.
+// Not cached: masks are drawn by hand and rarely repeat.
+export const inpaintPanelRegion = (image: InlineImage, mask: InlineImage, signal?: AbortSignal): Promise<InlineImage> =>
+    withRetries(() => getAIProvider().inpaintRegion(image, mask, signal), undefined, signal);
+
+// Drops the cached AI results for one panel: its text removal, and the subjects found in `inpainted`.
+export const forgetPanelResults = async (panel: ManhwaPanel, inpainted: InlineImage): Promise<void> => {
+    await forgetCachedResult('inpaint', { data: await fileToBase64(panel.file), mimeType: panel.file.type });
+    await forgetCachedResult('crops', inpainted);
+};
+
 export const animatePanels = async (
     panels: ManhwaPanel[],
     timings: PanelTiming[],
     audioDuration: number,
-    onProgress: (message: string) => void
-): Promise<EditedClip[]> => {
+    onProgress: (message: string) => void,
+    concurrency: number,
+    textRemoval: TextRemovalMode,
+    signal?: AbortSignal
+): Promise<{ clips: EditedClip[], failures: PanelFailure[] }> => {
     const editedClips: EditedClip[] = [];
-    const panelCache = new Map<string, { inpaintedImageBase64: string, mimeType: string, crops: CropRect[] }>();
-    
-    const uniquePanelIds = [...new Set(timings.map(t => panels[t.panel-1].id))];
-
-    // Process each unique panel only once to save API calls
-    for(let i=0; i<uniquePanelIds.length; i++) {
-        const panelId = uniquePanelIds[i];
-        const panel = panels.find(p => p.id === panelId);
-        if(!panel) continue;
-
-        onProgress(`Inpainting panel ${i+1}/${uniquePanelIds.length}`);
-        const { base64Data: inpainted, mimeType } = await inpaintImage(panel);
-        
-        onProgress(`Analyzing panel ${i+1}/${uniquePanelIds.length} for animation`);
-        const imageUrl = `data:${mimeType};base64,${inpainted}`;
-        const crops = await getSubjectCrops(inpainted, mimeType, imageUrl);
-
-        panelCache.set(panelId, { inpaintedImageBase64: inpainted, mimeType, crops });
-    }
+    const panelCache = new Map<string, PanelEdits>();
+    const failures: PanelFailure[] = [];
+
+    const uniquePanels = [...new Set(timings.map(t => panels[t.panel-1]).filter(Boolean))];
+
+    // Process each unique panel only once to save API calls, several at a time.
+    let completed = 0;
+    onProgress(`Processing ${uniquePanels.length} panels`);
+    await mapWithConcurrency(uniquePanels, concurrency, async (panel) => {
+        const panelNumber = panels.indexOf(panel) + 1;
+        const onRetry = (message: string) => onProgress(`Panel ${panelNumber}: ${message}`);
+        let mode = textRemoval;
+        let firstError: unknown;
+        for (;;) {
+            try {
+                panelCache.set(panel.id, await processPanel(panel, { textRemoval: mode, onRetry, signal }));
+                break;
+            } catch (error) {
+                // Panels finished before a cancel stay in the panel cache, so running again picks up where this left off.
+                if (isAbortError(error)) throw error;
+                const fallback = TEXT_REMOVAL_FALLBACKS[mode];
+                if (!fallback) throw error;
+                console.error(`Text removal (${mode}) failed for panel ${panelNumber}, falling back to ${fallback}:`, error);
+                firstError ??= error;
+                mode = fallback;
+            }
+        }
+        if (mode !== textRemoval) {
+            const message = firstError instanceof Error ? firstError.message : String(firstError);
+            failures.push({ panelId: panel.id, panelNumber, message, fallback: mode });
+        }
+        completed++;
+        onProgress(`Processed ${completed}/${uniquePanels.length} panels${failures.length > 0 ? `, ${failures.length} failed` : ''}`);
+    }, signal);
+    failures.sort((a, b) => a.panelNumber - b.panelNumber);
 
     // Assemble the final clip timeline using the cached panel data
     for (let i = 0; i < timings.length; i++) {
@@ -167,11 +205,10 @@ export const animatePanels = async (
             editedClips.push({
                 startTime: timing.startTime,
                 duration,
-                panelId: panel.id,
                 ...cachedData
             });
         }
     }
     
-    return editedClips;
+    return { clips: editedClips, failures };
 };
@@ -0,0 +1,27 @@
+import { openDatabase } from '../utils/idbUtils';
+
+const DB_NAME = 'manhwa-video-creator';
+// v2 adds the panel cache.
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = 'projects';
+export const PANEL_CACHE_STORE = 'panel-cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// The app's single IndexedDB database, shared by the project store and the panel cache.
+export const getAppDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      for (const storeName of [PROJECTS_STORE, PANEL_CACHE_STORE]) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      }
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
@@ -1,176 +1,253 @@
-
-import { GoogleGenAI, Part, Type, Modality } from "@google/genai";
-import { ManhwaPanel, PanelTiming, VoiceOption } from '../types';
-import { decode, audioBufferToWav, decodeAudioData } from "../utils/audioUtils";
+import { ManhwaPanel, PanelTiming, ScriptBatch, ScriptSegment, VoiceOption, VoiceoverChunk } from '../types';
+import { audioBufferToWav, concatAudioBuffers, decodeAudioData } from "../utils/audioUtils";
 import { fileToBase64 } from "../utils/fileUtils";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+import { isAbortError, mapWithConcurrency, throwIfAborted } from "../utils/asyncUtils";
+import { distributeParagraphs, parseScriptSegments, splitScriptIntoChunks } from "../utils/scriptUtils";
+import { getAIProvider, InlineImage, ScriptTurn, TTS_SAMPLE_RATE, withRetries } from './providers';
 
 const BATCH_SIZE = 15; // Process 15 images at a time to stay within API limits for large projects
 
-export const generateScript = async (
-  panels: ManhwaPanel[],
-  onProgress: (message: string) => void,
-  language: string
-): Promise<string> => {
-  const model = 'gemini-2.5-pro';
-  
-  // Use a chat session to maintain context across multiple API calls
-  const chat = ai.chats.create({ model });
-  let fullScript = '';
-
-  onProgress(`Preparing ${panels.length} images for analysis...`);
-  
-  const allImageParts: Part[] = await Promise.all(panels.map(async (panel) => {
-    const base64Data = await fileToBase64(panel.file);
-    return {
-      inlineData: { data: base64Data, mimeType: panel.file.type },
-    };
-  }));
-
-  for (let i = 0; i < allImageParts.length; i += BATCH_SIZE) {
-    const batchStart = i + 1;
-    const batchEnd = Math.min(i + BATCH_SIZE, allImageParts.length);
-    onProgress(`Analyzing panels ${batchStart} to ${batchEnd}...`);
-
-    const batchParts = allImageParts.slice(i, i + BATCH_SIZE);
-    
-    let promptParts: Part[];
-
-    if (i === 0) {
-      const initialPromptText = `You are a scriptwriter for a YouTube channel that explains manhwa (Korean comics).
+// Splits the panels into the batches the script is written in, all still to be generated.
+export const createScriptBatches = (panels: ManhwaPanel[], language: string): ScriptBatch[] => {
+  const batches: ScriptBatch[] = [];
+  for (let i = 0; i < panels.length; i += BATCH_SIZE) {
+    const batchPanels = panels.slice(i, i + BATCH_SIZE);
+    batches.push({
+      start: i + 1,
+      end: i + batchPanels.length,
+      panelIds: batchPanels.map(panel => panel.id),
+      language,
+      status: 'pending',
+    });
+  }
+  return batches;
+};
+
+// Whether `batches` were made for these panels and language, so generation can pick up where they left off.
+export const canResumeScriptBatches = (batches: ScriptBatch[], panels: ManhwaPanel[], language: string): boolean => {
+  const panelIds = batches.flatMap(batch => batch.panelIds);
+  return batches.length > 0
+    && batches.every(batch => batch.language === language)
+    && panelIds.length === panels.length
+    && panelIds.every((id, i) => id === panels[i].id);
+};
+
+const getScriptPrompt = (batch: ScriptBatch, isFirst: boolean): string => {
+  const markerInstructions = `The panels in this message are numbered ${batch.start} to ${batch.end} in the order given.
+Split the narration by panel: before the narration for each panel, write a line containing only its marker, for example "[Panel ${batch.start}]".
+Every panel must have its marker followed by at least one sentence of narration.`;
+
+  if (isFirst) {
+    return `You are a scriptwriter for a YouTube channel that explains manhwa (Korean comics).
 Analyze these manhwa panels, which are in chronological order.
-Write a compelling and descriptive script in ${language} that narrates the story shown in the panels.
+Write a compelling and descriptive script in ${batch.language} that narrates the story shown in the panels.
 The script should explain the events, character actions, and any implied emotions or plot points.
 Make it engaging for someone who is watching a video, not just reading the comic.
 Do not describe the panels themselves (e.g., "In this panel..."). Instead, narrate the story as it unfolds.
 Keep the tone exciting and dramatic. The output should be only the script text, with no introductory phrases like "Here is the script:".
-Start the script directly.`;
-      promptParts = [{ text: initialPromptText }, ...batchParts];
-    } else {
-      const subsequentPromptText = `Excellent, continue the script in ${language} based on the story so far. Here are the next panels. Maintain the same narrative style and tone. Do not repeat what you've already described or add any introductory text. Just provide the script for these new panels.`;
-      promptParts = [{ text: subsequentPromptText }, ...batchParts];
-    }
-    
-    const response = await chat.sendMessage({ message: promptParts });
-    const scriptPart = response.text;
-    // Add newlines between parts for readability and to separate narrative beats.
-    fullScript += (fullScript ? '\n\n' : '') + scriptPart;
+Start the script directly.
+${markerInstructions}`;
   }
+  return `Excellent, continue the script in ${batch.language} based on the story so far. Here are the next panels. Maintain the same narrative style and tone. Do not repeat what you've already described or add any introductory text. Just provide the script for these new panels.
+${markerInstructions}`;
+};
 
-  return fullScript;
+// Writes the script for batch `index`. The finished batches before it are replayed as the conversation so far,
+// so the batch is written with the context of the story up to that point.
+export const generateScriptBatch = async (
+  panels: ManhwaPanel[],
+  batches: ScriptBatch[],
+  index: number,
+  onProgress: (message: string) => void,
+  signal?: AbortSignal
+): Promise<ScriptBatch> => {
+  const batch = batches[index];
+  const getImages = (from: ScriptBatch): Promise<InlineImage[]> => Promise.all(
+    panels.slice(from.start - 1, from.end).map(async (panel) => ({
+      data: await fileToBase64(panel.file),
+      mimeType: panel.file.type,
+    }))
+  );
+
+  onProgress(`Preparing panels ${batch.start} to ${batch.end} for analysis...`);
+  const history: ScriptTurn[] = [];
+  let isFirst = true;
+  for (const previous of batches.slice(0, index)) {
+    if (previous.status !== 'done' || previous.reply === undefined) continue;
+    history.push(
+      { role: 'user', text: getScriptPrompt(previous, isFirst), images: await getImages(previous) },
+      { role: 'model', text: previous.reply }
+    );
+    isFirst = false;
+  }
+  const message: ScriptTurn = { role: 'user', text: getScriptPrompt(batch, isFirst), images: await getImages(batch) };
+
+  throwIfAborted(signal);
+  onProgress(`Analyzing panels ${batch.start} to ${batch.end}...`);
+  const reply = await withRetries(
+    () => getAIProvider().continueScript(history, message, signal),
+    (retryMessage) => onProgress(`Analyzing panels ${batch.start} to ${batch.end}... (${retryMessage})`),
+    signal
+  );
+
+  // If the model ignored the markers, spread its paragraphs over the batch so nothing is lost.
+  const segments = (parseScriptSegments(reply) ?? distributeParagraphs(reply, batch.start, batch.end - batch.start + 1))
+    .map(segment => ({ ...segment, panel: Math.min(batch.end, Math.max(batch.start, segment.panel)) }));
+  return { ...batch, status: 'done', reply, segments, error: undefined };
 };
 
-export const generateVoiceover = async (script: string, voice: VoiceOption): Promise<{ audioBlob: Blob, audioUrl: string }> => {
-  const model = 'gemini-2.5-flash-preview-tts';
-  
-  const response = await ai.models.generateContent({
-    model,
-    contents: [{ parts: [{ text: script }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: voice },
-        },
-      },
-    },
+// Writes every batch that isn't done yet, in order, reporting each one as it finishes. A failing batch is
+// reported as failed and stops the run; the batches before it stay done, so running again resumes from it.
+// Returns the segments of all batches.
+export const generateScript = async (
+  panels: ManhwaPanel[],
+  batches: ScriptBatch[],
+  onProgress: (message: string) => void,
+  onBatchUpdate: (index: number, batch: ScriptBatch) => void,
+  signal?: AbortSignal
+): Promise<ScriptSegment[]> => {
+  const results = [...batches];
+  for (let i = 0; i < results.length; i++) {
+    if (results[i].status === 'done') continue;
+    try {
+      results[i] = await generateScriptBatch(panels, results, i, onProgress, signal);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        const message = error instanceof Error ? error.message : "An unknown error occurred.";
+        onBatchUpdate(i, { ...results[i], status: 'failed', error: message });
+      }
+      throw error;
+    }
+    onBatchUpdate(i, results[i]);
+  }
+  return results.flatMap(batch => batch.segments ?? []);
+};
+
+// Keep each TTS request well inside the model's input limit so long chapters aren't truncated.
+const MAX_TTS_CHUNK_CHARS = 2500;
+export const DEFAULT_CHUNK_PAUSE_SECONDS = 0.4;
+
+// Splits the script into voiceover chunks, reusing finished audio from `previous` where text and voice still match.
+// Segmented scripts are chunked per segment, so every segment starts on a chunk boundary and can be timed exactly.
+export const prepareVoiceoverChunks = (script: string, voice: VoiceOption, previous: VoiceoverChunk[] = []): VoiceoverChunk[] => {
+  const segments = parseScriptSegments(script);
+  const pieces: { text: string, segment?: number }[] = segments
+    ? segments.flatMap((segment, index) => splitScriptIntoChunks(segment.text, MAX_TTS_CHUNK_CHARS).map(text => ({ text, segment: index })))
+    : splitScriptIntoChunks(script, MAX_TTS_CHUNK_CHARS).map(text => ({ text }));
+
+  return pieces.map(({ text, segment }) => {
+    const reusable = previous.find(chunk => chunk.status === 'done' && chunk.text === text && chunk.voice === voice);
+    return reusable ? { ...reusable, segment } : { text, voice, segment, status: 'pending' };
   });
+};
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) {
-    throw new Error("Could not generate audio from the API.");
+// Synthesizes a single chunk. Failures are recorded on the chunk instead of thrown so they can be retried individually;
+// a cancelled chunk goes back to pending.
+export const synthesizeVoiceoverChunk = async (chunk: VoiceoverChunk, signal?: AbortSignal): Promise<VoiceoverChunk> => {
+  try {
+    const audio = await withRetries(() => getAIProvider().synthesizeSpeech(chunk.text, chunk.voice, signal), undefined, signal);
+    return { ...chunk, status: 'done', audio, error: undefined };
+  } catch (error) {
+    if (isAbortError(error)) {
+      return { ...chunk, status: 'pending', error: undefined };
+    }
+    console.error("Error synthesizing voiceover chunk:", error);
+    const message = error instanceof Error ? error.message : "An unknown error occurred.";
+    return { ...chunk, status: 'failed', audio: undefined, error: message };
   }
-  
-  const audioBytes = decode(base64Audio);
-  
-  // The API returns raw PCM data. We need to convert it to a playable format like WAV.
-  // The TTS model uses a 24000 sample rate.
-  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-  const audioContext = new AudioContext({sampleRate: 24000});
-  const audioBuffer = await decodeAudioData(audioBytes, audioContext, 24000, 1);
-  const audioBlob = audioBufferToWav(audioBuffer);
+};
 
-  const audioUrl = URL.createObjectURL(audioBlob);
-  return { audioBlob, audioUrl };
+// Synthesizes every chunk that isn't done yet, `concurrency` at a time, reporting each chunk as its status changes.
+// When cancelled, finished chunks keep their audio so the run can be resumed.
+export const synthesizeVoiceoverChunks = async (
+  chunks: VoiceoverChunk[],
+  onChunkUpdate: (index: number, chunk: VoiceoverChunk) => void,
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<VoiceoverChunk[]> => {
+  const results = await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+    if (chunk.status === 'done') return chunk;
+    onChunkUpdate(index, { ...chunk, status: 'synthesizing', error: undefined });
+    const result = await synthesizeVoiceoverChunk(chunk, signal);
+    onChunkUpdate(index, result);
+    return result;
+  }, signal);
+  throwIfAborted(signal);
+  return results;
+};
+
+// Joins the finished chunks into one WAV with `pauseSeconds` of silence between them.
+// Also returns where each chunk starts in the stitched audio, in seconds.
+export const stitchVoiceover = async (
+  chunks: VoiceoverChunk[],
+  pauseSeconds: number
+): Promise<{ audioBlob: Blob, duration: number, chunkStartTimes: number[] }> => {
+  if (chunks.length === 0 || chunks.some(chunk => chunk.status !== 'done' || !chunk.audio)) {
+    throw new Error("All voiceover chunks must be synthesized before they can be stitched together.");
+  }
+
+  // The providers return raw PCM data. We need to convert it to a playable format like WAV.
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const audioContext = new AudioContext({sampleRate: TTS_SAMPLE_RATE});
+  try {
+    const buffers = await Promise.all(chunks.map(chunk => decodeAudioData(chunk.audio!, audioContext, TTS_SAMPLE_RATE, 1)));
+    const audioBuffer = concatAudioBuffers(buffers, audioContext, pauseSeconds);
+    const chunkStartTimes: number[] = [];
+    let offset = 0;
+    for (const buffer of buffers) {
+      chunkStartTimes.push(offset);
+      offset += buffer.duration + pauseSeconds;
+    }
+    return { audioBlob: audioBufferToWav(audioBuffer), duration: audioBuffer.duration, chunkStartTimes };
+  } finally {
+    audioContext.close();
+  }
 };
 
-export const generateTimings = async (script: string, panelCount: number, audioDuration: number): Promise<PanelTiming[]> => {
+export const generateTimings = async (
+    script: string,
+    panelCount: number,
+    audioDuration: number,
+    signal?: AbortSignal
+): Promise<PanelTiming[]> => {
     // Optimization: For a single panel, the timing is always to start at 0.
     // This avoids a needless API call and makes single-panel videos much faster.
     if (panelCount === 1) {
         return [{ panel: 1, startTime: 0 }];
     }
 
-    // Use gemini-2.5-flash for faster performance on this structured data task.
-    const model = 'gemini-2.5-flash';
-
-    const prompt = `
-You are a video editing assistant. Your task is to synchronize a script with a series of comic panels.
-Based on the provided script and the total audio duration, determine when each of the ${panelCount} panels should appear on screen.
-
-RULES:
-1. The output MUST be a valid JSON array of objects.
-2. Each object in the array represents a transition to a new panel.
-3. Each object must have two keys: "panel" (an integer, 1-based index of the panel) and "startTime" (a float, in seconds).
-4. The first panel MUST start at time 0.0.
-5. The last panel must be displayed until the end of the audio. The total audio duration is ${audioDuration.toFixed(2)} seconds.
-6. Distribute the panels logically according to the narrative flow of the script. A panel should be displayed while the corresponding part of the script is being narrated.
-7. You can switch back and forth between panels if the script refers to a previous scene.
-8. Ensure the panel indices are within the valid range of 1 to ${panelCount}.
-9. The "startTime" for each entry must be in increasing order.
-
-SCRIPT:
----
-${script}
----
-
-Total panels: ${panelCount}
-Total audio duration: ${audioDuration.toFixed(2)} seconds.
-
-Provide only the JSON array as your response.
-`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        panel: {
-                            type: Type.INTEGER,
-                            description: "The 1-based index of the panel to display."
-                        },
-                        startTime: {
-                            type: Type.NUMBER,
-                            description: "The timestamp in seconds when the panel should appear."
-                        }
-                    },
-                    required: ["panel", "startTime"]
-                }
-            }
-        }
-    });
+    const timings = await withRetries(() => getAIProvider().generateTimings(script, panelCount, audioDuration, signal), undefined, signal);
 
-    try {
-        const jsonText = (response.text || '[]').trim();
-        const timings: PanelTiming[] = JSON.parse(jsonText);
-        // Basic validation
-        if (!Array.isArray(timings) || timings.some(t => typeof t.panel !== 'number' || typeof t.startTime !== 'number')) {
-            throw new Error("Invalid timing format received from API.");
-        }
-        // Ensure the video starts at time 0
-        if (timings.length > 0 && timings[0].startTime !== 0) {
-            timings[0].startTime = 0;
-        }
-        return timings;
-    } catch (e) {
-        console.error("Failed to parse timings JSON:", e);
-        console.error("Received text:", response.text);
-        throw new Error("Could not parse timing information from the API response.");
+    // Basic validation
+    if (!Array.isArray(timings) || timings.some(t => typeof t.panel !== 'number' || typeof t.startTime !== 'number')) {
+        throw new Error("Invalid timing format received from API.");
     }
-};
\ No newline at end of file
+    // Starting at 0, ordering and durations are repaired by sanitizeTimings, which reports each fix.
+    return timings;
+};
+
+// Computes exact panel timings for a segmented script: each panel appears when its segment's first chunk starts.
+// No model call is needed because every segment was voiced separately.
+export const computeSegmentTimings = (
+  segments: ScriptSegment[],
+  chunks: VoiceoverChunk[],
+  chunkStartTimes: number[],
+  panelCount: number
+): PanelTiming[] => {
+  const timings: PanelTiming[] = [];
+  chunks.forEach((chunk, index) => {
+    if (chunk.segment === undefined || chunk.segment === chunks[index - 1]?.segment) return;
+    const panel = segments[chunk.segment].panel;
+    if (panel < 1 || panel > panelCount) {
+      throw new Error(`The script refers to panel ${panel}, but there are only ${panelCount} panels.`);
+    }
+    // Consecutive segments on the same panel keep showing it.
+    if (timings[timings.length - 1]?.panel !== panel) {
+      timings.push({ panel, startTime: chunkStartTimes[index] });
+    }
+  });
+  if (timings.length > 0) {
+    timings[0].startTime = 0;
+  }
+  return timings;
+};
@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import * as pdfjsLib from 'pdfjs-dist';
+
+// pdf.js parses documents in a web worker; point it at the worker bundled with the package.
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url).toString();
+
+export interface SkippedEntry {
+  source: string; // The archive or PDF the entry came from
+  name: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  files: File[];
+  skipped: SkippedEntry[];
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+};
+
+// Target width for rasterized PDF pages; large enough for the AI models to read small details.
+const PDF_RENDER_WIDTH = 1600;
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Sorts names the way a human would, so "page_2" comes before "page_10".
+export const naturalCompare = (a: string, b: string): number => naturalCollator.compare(a, b);
+
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+const getBaseName = (path: string): string => path.split('/').pop() ?? path;
+
+export const isArchiveFile = (file: File): boolean => ['zip', 'cbz'].includes(getExtension(file.name));
+
+export const isPdfFile = (file: File): boolean => file.type === 'application/pdf' || getExtension(file.name) === 'pdf';
+
+// Extracts every image in a .zip/.cbz archive, ordered by natural sort of the full entry path.
+export async function extractArchivePages(archive: File): Promise<ImportResult> {
+  const zip = await JSZip.loadAsync(archive);
+  const skipped: SkippedEntry[] = [];
+  const imageEntries: JSZip.JSZipObject[] = [];
+
+  zip.forEach((path, entry) => {
+    if (entry.dir) return;
+    const name = getBaseName(path);
+    // macOS resource forks and hidden files (e.g. .DS_Store, Thumbs.db) are never pages.
+    if (path.startsWith('__MACOSX/') || name.startsWith('.') || name.toLowerCase() === 'thumbs.db') return;
+    if (IMAGE_MIME_TYPES[getExtension(name)]) {
+      imageEntries.push(entry);
+    } else {
+      skipped.push({ source: archive.name, name: path, reason: 'Not a supported image format' });
+    }
+  });
+
+  imageEntries.sort((a, b) => naturalCompare(a.name, b.name));
+
+  const files: File[] = [];
+  for (const entry of imageEntries) {
+    try {
+      const blob = await entry.async('blob');
+      const name = getBaseName(entry.name);
+      files.push(new File([blob], name, { type: IMAGE_MIME_TYPES[getExtension(name)] }));
+    } catch (error) {
+      console.error(`Failed to extract ${entry.name} from ${archive.name}:`, error);
+      skipped.push({ source: archive.name, name: entry.name, reason: 'Could not be extracted (corrupt entry?)' });
+    }
+  }
+
+  return { files, skipped };
+}
+
+// Rasterizes every page of a PDF into a JPEG image file.
+export async function renderPdfPages(pdfFile: File): Promise<ImportResult> {
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await pdfFile.arrayBuffer()) }).promise;
+  const baseName = pdfFile.name.replace(/\.[^.]+$/, '');
+  const files: File[] = [];
+  const skipped: SkippedEntry[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const pageName = `${baseName}_page_${String(pageNumber).padStart(3, '0')}.jpg`;
+      try {
+        const page = await pdf.getPage(pageNumber);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / baseViewport.width });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(viewport.width);
+        canvas.height = Math.round(viewport.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          throw new Error("Could not create a 2D canvas context.");
+        }
+        await page.render({ canvasContext: ctx, viewport }).promise;
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+        if (!blob) {
+          throw new Error("Could not encode the rendered page.");
+        }
+        files.push(new File([blob], pageName, { type: 'image/jpeg' }));
+        page.cleanup();
+      } catch (error) {
+        console.error(`Failed to render page ${pageNumber} of ${pdfFile.name}:`, error);
+        skipped.push({ source: pdfFile.name, name: `Page ${pageNumber}`, reason: 'Could not be rendered' });
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { files, skipped };
+}
+
+// Expands dropped files into individual page images, keeping the drop order.
+// Plain images pass through unchanged; archives and PDFs are replaced by their pages.
+export async function expandImportFiles(droppedFiles: File[]): Promise<ImportResult> {
+  const files: File[] = [];
+  const skipped: SkippedEntry[] = [];
+
+  for (const file of droppedFiles) {
+    try {
+      let result: ImportResult;
+      if (isArchiveFile(file)) {
+        result = await extractArchivePages(file);
+      } else if (isPdfFile(file)) {
+        result = await renderPdfPages(file);
+      } else {
+        files.push(file);
+        continue;
+      }
+      if (result.files.length === 0) {
+        skipped.push({ source: file.name, name: file.name, reason: 'Contains no readable pages' });
+      }
+      files.push(...result.files);
+      skipped.push(...result.skipped);
+    } catch (error) {
+      console.error(`Failed to import ${file.name}:`, error);
+      skipped.push({ source: file.name, name: file.name, reason: 'Could not be opened (corrupt or password-protected?)' });
+    }
+  }
+
+  return { files, skipped };
+}
@@ -0,0 +1,66 @@
+import { getRecord, putRecord, deleteRecord, clearStore, countRecords } from '../utils/idbUtils';
+import { decode } from '../utils/audioUtils';
+import { sha256Hex } from '../utils/fileUtils';
+import { getAppDb, PANEL_CACHE_STORE } from './appDatabase';
+import { CachedTask, InlineImage, getAIProvider } from './providers';
+
+interface PanelCacheEntry<T> {
+  task: CachedTask;
+  tag: string; // Provider, model and prompt version that produced the value
+  createdAt: number;
+  value: T;
+}
+
+// Results are keyed by the exact image bytes and the provider's cache tag, so a changed
+// panel, model or prompt never reuses a stale result.
+const cacheKey = async (task: CachedTask, tag: string, image: InlineImage): Promise<string> => {
+  const hash = await sha256Hex(decode(image.data));
+  return `${task}:${tag}:${hash}`;
+};
+
+// Returns the cached result of `task` for this image, or computes and stores it.
+// With `force`, the cached result is ignored and replaced. Cache failures never fail the task.
+export async function withPanelCache<T>(
+  task: CachedTask,
+  image: InlineImage,
+  compute: () => Promise<T>,
+  force = false
+): Promise<T> {
+  let tag: string | null = null;
+  let key: string | null = null;
+  try {
+    tag = await getAIProvider().cacheTag(task);
+    const readKey = await cacheKey(task, tag, image);
+    key = readKey;
+    if (!force) {
+      const entry = await getAppDb().then(db => getRecord<PanelCacheEntry<T>>(db, PANEL_CACHE_STORE, readKey));
+      if (entry) return entry.value;
+    }
+  } catch (error) {
+    console.error("Could not read the panel cache:", error);
+  }
+
+  const value = await compute();
+  if (tag && key) {
+    const entry: PanelCacheEntry<T> = { task, tag, createdAt: Date.now(), value };
+    const entryKey = key;
+    getAppDb()
+      .then(db => putRecord(db, PANEL_CACHE_STORE, entry, entryKey))
+      .catch(error => console.error("Could not write to the panel cache:", error));
+  }
+  return value;
+}
+
+export async function countPanelCacheEntries(): Promise<number> {
+  return countRecords(await getAppDb(), PANEL_CACHE_STORE);
+}
+
+// Removes the cached result of `task` for this image under the current provider, so the next run asks the AI again.
+export async function forgetCachedResult(task: CachedTask, image: InlineImage): Promise<void> {
+  const key = await cacheKey(task, await getAIProvider().cacheTag(task), image);
+  await deleteRecord(await getAppDb(), PANEL_CACHE_STORE, key);
+}
+
+export async function clearPanelCache(): Promise<void> {
+  await clearStore(await getAppDb(), PANEL_CACHE_STORE);
+}
@@ -0,0 +1,146 @@
+import JSZip from 'jszip';
+import { EditedClip, VideoSettings } from '../types';
+import { decode } from '../utils/audioUtils';
+import { ProjectSnapshot, StoredProject, toStoredProject, fromStoredProject, migrateProject } from './projectStore';
+
+const BUNDLE_FORMAT = 'manhwa-video-project';
+const MANIFEST_PATH = 'manifest.json';
+
+interface BundlePanel {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  path: string;
+}
+
+// Clips reference their images by path; clips that share a panel share one image file.
+type BundleClip = Omit<EditedClip, 'inpaintedImageBase64' | 'rejectedInpaint'> & {
+  imagePath: string;
+  rejectedInpaint?: { imagePath: string, mimeType: string };
+};
+
+type BundleVideoSettings = Omit<VideoSettings, 'backgroundImage'> & {
+  backgroundImage?: { imagePath: string, mimeType: string };
+};
+
+// The manifest mirrors StoredProject, with every binary replaced by a path inside the archive.
+interface BundleManifest extends Omit<StoredProject, 'panels' | 'audioBlob' | 'editedClips' | 'videoSettings'> {
+  format: typeof BUNDLE_FORMAT;
+  panels: BundlePanel[];
+  audioPath: string | null;
+  editedClips: BundleClip[];
+  videoSettings: BundleVideoSettings;
+}
+
+const extensionForMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1] ?? 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+};
+
+// Packs a project into a single .zip: manifest.json, original panels, inpainted images and narration audio.
+export async function exportProjectBundle(snapshot: ProjectSnapshot): Promise<Blob> {
+  const stored = toStoredProject(snapshot);
+  const zip = new JSZip();
+
+  const panels: BundlePanel[] = stored.panels.map((panel, index) => {
+    const path = `panels/${String(index + 1).padStart(3, '0')}_${panel.name}`;
+    zip.file(path, panel.data);
+    return { id: panel.id, name: panel.name, type: panel.type, lastModified: panel.lastModified, path };
+  });
+
+  let audioPath: string | null = null;
+  if (stored.audioBlob) {
+    audioPath = 'audio/narration.wav';
+    zip.file(audioPath, stored.audioBlob);
+  }
+
+  const imagePaths = new Map<string, string>();
+  const addImage = (imageBase64: string, mimeType: string, panelId: string): string => {
+    let imagePath = imagePaths.get(imageBase64);
+    if (!imagePath) {
+      imagePath = `inpainted/${String(imagePaths.size + 1).padStart(3, '0')}_${panelId}.${extensionForMimeType(mimeType)}`;
+      zip.file(imagePath, decode(imageBase64));
+      imagePaths.set(imageBase64, imagePath);
+    }
+    return imagePath;
+  };
+  const editedClips: BundleClip[] = stored.editedClips.map(({ inpaintedImageBase64, rejectedInpaint, ...clip }) => ({
+    ...clip,
+    imagePath: addImage(inpaintedImageBase64, clip.mimeType, clip.panelId),
+    ...(rejectedInpaint && {
+      rejectedInpaint: {
+        imagePath: addImage(rejectedInpaint.imageBase64, rejectedInpaint.mimeType, clip.panelId),
+        mimeType: rejectedInpaint.mimeType,
+      },
+    }),
+  }));
+
+  const { backgroundImage, ...settings } = stored.videoSettings;
+  const videoSettings: BundleVideoSettings = { ...settings };
+  if (backgroundImage) {
+    videoSettings.backgroundImage = { imagePath: `background/background.${extensionForMimeType(backgroundImage.mimeType)}`, mimeType: backgroundImage.mimeType };
+    zip.file(videoSettings.backgroundImage.imagePath, decode(backgroundImage.imageBase64));
+  }
+
+  const { panels: _panels, audioBlob: _audioBlob, editedClips: _editedClips, videoSettings: _videoSettings, ...rest } = stored;
+  const manifest: BundleManifest = { ...rest, format: BUNDLE_FORMAT, panels, audioPath, editedClips, videoSettings };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+}
+
+const readEntry = <T extends 'blob' | 'base64'>(zip: JSZip, path: string, type: T) => {
+  const entry = zip.file(path);
+  if (!entry) {
+    throw new Error(`Project bundle is missing "${path}".`);
+  }
+  return entry.async(type);
+};
+
+// Reads a bundle written by exportProjectBundle, migrating it if it was exported by an older version.
+export async function importProjectBundle(file: File): Promise<ProjectSnapshot> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestEntry = zip.file(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error("This file is not a project bundle (manifest.json is missing).");
+  }
+  const manifest: BundleManifest = JSON.parse(await manifestEntry.async('string'));
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error("This file is not a Manhwa Video Creator project bundle.");
+  }
+
+  const { format: _format, panels, audioPath, editedClips, videoSettings, ...rest } = manifest;
+
+  const imageData = new Map<string, string>();
+  for (const clip of editedClips) {
+    for (const imagePath of [clip.imagePath, clip.rejectedInpaint?.imagePath]) {
+      if (imagePath && !imageData.has(imagePath)) {
+        imageData.set(imagePath, await readEntry(zip, imagePath, 'base64'));
+      }
+    }
+  }
+
+  const { backgroundImage, ...settings } = videoSettings;
+
+  const stored = {
+    ...rest,
+    videoSettings: {
+      ...settings,
+      ...(backgroundImage && {
+        backgroundImage: { imageBase64: await readEntry(zip, backgroundImage.imagePath, 'base64'), mimeType: backgroundImage.mimeType },
+      }),
+    },
+    panels: await Promise.all(panels.map(async ({ path, ...panel }) => ({ ...panel, data: await readEntry(zip, path, 'blob') }))),
+    audioBlob: audioPath ? new Blob([await readEntry(zip, audioPath, 'blob')], { type: 'audio/wav' }) : null,
+    editedClips: editedClips.map(({ imagePath, rejectedInpaint, ...clip }) => ({
+      ...clip,
+      inpaintedImageBase64: imageData.get(imagePath)!,
+      ...(rejectedInpaint && {
+        rejectedInpaint: { imageBase64: imageData.get(rejectedInpaint.imagePath)!, mimeType: rejectedInpaint.mimeType },
+      }),
+    })),
+  };
+
+  return fromStoredProject(migrateProject(stored));
+}
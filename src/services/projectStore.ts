@@ -0,0 +1,153 @@
+import { ManhwaPanel, EditedClip, VideoSettings, VoiceOption, PanelTiming, TextRemovalMode } from '../types';
+import { getRecord, putRecord, deleteRecord } from '../utils/idbUtils';
+import { DEFAULT_VIDEO_SETTINGS } from './videoService';
+import { getAppDb, PROJECTS_STORE } from './appDatabase';
+
+const AUTOSAVE_KEY = 'autosave';
+
+// Version of the StoredProject shape. Bump it and add a migration step to migrateProject whenever the
+// persisted data changes shape (e.g. when types.ts gains or renames fields).
+export const PROJECT_SCHEMA_VERSION = 4;
+
+// Everything needed to restore a session.
+export interface ProjectSnapshot {
+  step: number;
+  panels: ManhwaPanel[];
+  script: string;
+  language: string;
+  voice: VoiceOption;
+  audioBlob: Blob | null;
+  timings: PanelTiming[];
+  editedClips: EditedClip[];
+  videoSettings: VideoSettings;
+  textRemoval: TextRemovalMode;
+}
+
+export interface StoredPanel {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  data: Blob;
+}
+
+export interface StoredProject {
+  schemaVersion: number;
+  savedAt: number;
+  step: number;
+  panels: StoredPanel[];
+  script: string;
+  language: string;
+  voice: VoiceOption;
+  audioBlob: Blob | null;
+  timings: PanelTiming[];
+  editedClips: EditedClip[];
+  videoSettings: VideoSettings;
+  textRemoval: TextRemovalMode;
+}
+
+// The shapes older versions of the app saved. Each is what the migration to the next version starts from.
+type StoredClipV3 = Omit<EditedClip, 'inpaintChoice'>;
+type StoredProjectV3 = Omit<StoredProject, 'editedClips'> & { editedClips: StoredClipV3[] };
+type StoredProjectV2 = Omit<StoredProjectV3, 'textRemoval'>;
+type StoredProjectV1 = Omit<StoredProjectV2, 'voice' | 'timings'>;
+
+// v2 records the narration voice and the panel timings used to build the clips.
+const migrateToV2 = (project: StoredProjectV1): StoredProjectV2 => ({ ...project, schemaVersion: 2, voice: 'Kore', timings: [] });
+
+// v3 records how text is removed from the panels; earlier projects always used the AI.
+const migrateToV3 = (project: StoredProjectV2): StoredProjectV3 => ({ ...project, schemaVersion: 3, textRemoval: 'ai' });
+
+// v4 adds the text removal review as step 4, and records the choice made for each clip's panel.
+const migrateToV4 = (project: StoredProjectV3): StoredProject => ({
+  ...project,
+  schemaVersion: 4,
+  step: project.step >= 4 ? project.step + 1 : project.step,
+  editedClips: project.editedClips.map(clip => ({ ...clip, inpaintChoice: 'unreviewed' })),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// The fields every version has, checked before trusting stored data to have the shape of its version.
+const isStoredProjectData = (value: unknown): value is StoredProjectV1 =>
+  isObject(value) &&
+  (value.schemaVersion === undefined || Number.isInteger(value.schemaVersion)) &&
+  typeof value.step === 'number' &&
+  Array.isArray(value.panels) &&
+  typeof value.script === 'string' &&
+  Array.isArray(value.editedClips) &&
+  isObject(value.videoSettings);
+
+export function migrateProject(project: unknown): StoredProject {
+  if (!isStoredProjectData(project)) {
+    throw new Error("The saved project data is malformed.");
+  }
+  const version = project.schemaVersion ?? 1;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version of the app (schema ${version}).`);
+  }
+  // Each step only runs for projects saved before the version it produces; newer ones already have that shape.
+  const v2 = version < 2 ? migrateToV2(project) : project as StoredProjectV2;
+  const v3 = version < 3 ? migrateToV3(v2) : v2 as StoredProjectV3;
+  return version < 4 ? migrateToV4(v3) : v3 as StoredProject;
+}
+
+export function toStoredProject(snapshot: ProjectSnapshot): StoredProject {
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: Date.now(),
+    step: snapshot.step,
+    panels: snapshot.panels.map(panel => ({
+      id: panel.id,
+      name: panel.file.name,
+      type: panel.file.type,
+      lastModified: panel.file.lastModified,
+      data: panel.file,
+    })),
+    script: snapshot.script,
+    language: snapshot.language,
+    voice: snapshot.voice,
+    audioBlob: snapshot.audioBlob,
+    timings: snapshot.timings,
+    editedClips: snapshot.editedClips,
+    videoSettings: snapshot.videoSettings,
+    textRemoval: snapshot.textRemoval,
+  };
+}
+
+export function fromStoredProject(stored: StoredProject): ProjectSnapshot {
+  return {
+    step: stored.step,
+    panels: stored.panels.map(panel => {
+      const file = new File([panel.data], panel.name, { type: panel.type, lastModified: panel.lastModified });
+      return { id: panel.id, file, preview: URL.createObjectURL(file) };
+    }),
+    script: stored.script,
+    language: stored.language,
+    voice: stored.voice,
+    audioBlob: stored.audioBlob,
+    timings: stored.timings,
+    editedClips: stored.editedClips,
+    // Settings added after a project was saved fall back to their defaults.
+    videoSettings: { ...DEFAULT_VIDEO_SETTINGS, ...stored.videoSettings },
+    textRemoval: stored.textRemoval,
+  };
+}
+
+export async function saveProject(snapshot: ProjectSnapshot): Promise<void> {
+  const db = await getAppDb();
+  await putRecord(db, PROJECTS_STORE, toStoredProject(snapshot), AUTOSAVE_KEY);
+}
+
+// Returns the autosaved project, or null if there is none.
+export async function loadProject(): Promise<ProjectSnapshot | null> {
+  const db = await getAppDb();
+  const stored = await getRecord<StoredProject>(db, PROJECTS_STORE, AUTOSAVE_KEY);
+  if (!stored) return null;
+  return fromStoredProject(migrateProject(stored));
+}
+
+export async function clearProject(): Promise<void> {
+  const db = await getAppDb();
+  await deleteRecord(db, PROJECTS_STORE, AUTOSAVE_KEY);
+}
@@ -0,0 +1,29 @@
+// Helpers for deciding how to react to a failed provider call. Both the Gemini SDK's ApiError
+// and ProxyRequestError carry the HTTP status in `status`.
+
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const isRateLimitError = (error: unknown): boolean => {
+  const status = getStatus(error);
+  if (status !== undefined) return status === 429;
+  return error instanceof Error && /\b429\b|RESOURCE_EXHAUSTED/.test(error.message);
+};
+
+// Rate limits, server errors and network failures are worth retrying; bad requests and auth errors are not.
+export const isTransientError = (error: unknown): boolean => {
+  const status = getStatus(error);
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+  if (error instanceof TypeError) return true; // fetch reports network failures as TypeError
+  return error instanceof Error && /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL/.test(error.message);
+};
+
+// How long the backend asked us to wait, if it said so: the proxy's Retry-After header or Gemini's RetryInfo.
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+  const retryAfterSeconds = (error as { retryAfterSeconds?: unknown } | null)?.retryAfterSeconds;
+  if (typeof retryAfterSeconds === 'number') return retryAfterSeconds * 1000;
+  const match = error instanceof Error ? /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(error.message) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+};
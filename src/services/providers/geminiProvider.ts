@@ -0,0 +1,281 @@
+import { GoogleGenAI, Content, Part, Type, Modality } from "@google/genai";
+import { PanelTiming, VoiceOption } from '../../types';
+import { decode } from '../../utils/audioUtils';
+import { AIProvider, CachedTask, InlineImage, ScriptTurn, SubjectCrop } from './types';
+
+export interface GeminiModels {
+  script: string;
+  speech: string;
+  timings: string;
+  inpaint: string;
+  crops: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  script: 'gemini-2.5-pro',
+  speech: 'gemini-2.5-flash-preview-tts',
+  // Use gemini-2.5-flash for faster performance on the structured data tasks.
+  timings: 'gemini-2.5-flash',
+  inpaint: 'gemini-2.5-flash-image',
+  crops: 'gemini-2.5-flash',
+};
+
+// Bump when the inpainting or crop prompt changes, so results cached from the old prompt are not reused.
+const PROMPT_VERSIONS: Record<CachedTask, number> = {
+  inpaint: 1,
+  crops: 1,
+};
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  models?: Partial<GeminiModels>;
+  baseUrl?: string; // Overrides the Gemini API endpoint, e.g. to test against a local stub
+}
+
+const toContent = (turn: ScriptTurn): Content => ({
+  role: turn.role,
+  parts: [
+    { text: turn.text },
+    ...(turn.images ?? []).map((image): Part => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+  ],
+});
+
+export function createGeminiProvider({ apiKey, models: modelOverrides, baseUrl }: GeminiProviderOptions): AIProvider {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+  const models: GeminiModels = { ...DEFAULT_GEMINI_MODELS, ...modelOverrides };
+
+  return {
+    name: 'gemini',
+
+    async cacheTag(task: CachedTask): Promise<string> {
+      return `gemini:${models[task]}:v${PROMPT_VERSIONS[task]}`;
+    },
+
+    async validateConfig(): Promise<string[]> {
+      const problems: string[] = [];
+      // Looking up each model checks both the key and that the model exists for it.
+      for (const [task, model] of Object.entries(models)) {
+        try {
+          await ai.models.get({ model });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          problems.push(`Model "${model}" (${task}) is not available: ${message}`);
+        }
+      }
+      return problems;
+    },
+
+    async continueScript(history: ScriptTurn[], message: ScriptTurn, signal?: AbortSignal): Promise<string> {
+      const response = await ai.models.generateContent({
+        model: models.script,
+        contents: [...history, message].map(toContent),
+        config: { abortSignal: signal },
+      });
+      return response.text ?? '';
+    },
+
+    async synthesizeSpeech(text: string, voice: VoiceOption, signal?: AbortSignal): Promise<Uint8Array> {
+      const response = await ai.models.generateContent({
+        model: models.speech,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice },
+            },
+          },
+        },
+      });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        throw new Error("Could not generate audio from the API.");
+      }
+      return decode(base64Audio);
+    },
+
+    async generateTimings(script: string, panelCount: number, audioDuration: number, signal?: AbortSignal): Promise<PanelTiming[]> {
+      const prompt = `
+You are a video editing assistant. Your task is to synchronize a script with a series of comic panels.
+Based on the provided script and the total audio duration, determine when each of the ${panelCount} panels should appear on screen.
+
+RULES:
+1. The output MUST be a valid JSON array of objects.
+2. Each object in the array represents a transition to a new panel.
+3. Each object must have two keys: "panel" (an integer, 1-based index of the panel) and "startTime" (a float, in seconds).
+4. The first panel MUST start at time 0.0.
+5. The last panel must be displayed until the end of the audio. The total audio duration is ${audioDuration.toFixed(2)} seconds.
+6. Distribute the panels logically according to the narrative flow of the script. A panel should be displayed while the corresponding part of the script is being narrated.
+7. You can switch back and forth between panels if the script refers to a previous scene.
+8. Ensure the panel indices are within the valid range of 1 to ${panelCount}.
+9. The "startTime" for each entry must be in increasing order.
+
+SCRIPT:
+---
+${script}
+---
+
+Total panels: ${panelCount}
+Total audio duration: ${audioDuration.toFixed(2)} seconds.
+
+Provide only the JSON array as your response.
+`;
+
+      const response = await ai.models.generateContent({
+        model: models.timings,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                panel: {
+                  type: Type.INTEGER,
+                  description: "The 1-based index of the panel to display."
+                },
+                startTime: {
+                  type: Type.NUMBER,
+                  description: "The timestamp in seconds when the panel should appear."
+                }
+              },
+              required: ["panel", "startTime"]
+            }
+          }
+        }
+      });
+
+      try {
+        return JSON.parse((response.text || '[]').trim());
+      } catch (e) {
+        console.error("Failed to parse timings JSON:", e);
+        console.error("Received text:", response.text);
+        throw new Error("Could not parse timing information from the API response.");
+      }
+    },
+
+    async inpaintImage(image: InlineImage, signal?: AbortSignal): Promise<InlineImage> {
+      const response = await ai.models.generateContent({
+        model: models.inpaint,
+        contents: {
+          parts: [
+            {
+              inlineData: { data: image.data, mimeType: image.mimeType },
+            },
+            {
+              text: `
+Analyze this comic panel. Your task is to remove all text, including speech bubbles, narration boxes, and sound effect text.
+Then, seamlessly fill in the empty areas by extending the surrounding artwork (inpaint).
+Pay close attention to the existing art style, including line work, coloring, shading, and textures.
+The inpainted area should blend perfectly and be indistinguishable from the original artist's work.
+The output should be ONLY the modified image with no text remaining. Do not add any extra elements or alter the original art.
+`,
+            },
+          ],
+        },
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+      const inlineData = imagePart?.inlineData;
+
+      if (!inlineData || typeof inlineData.data !== 'string' || typeof inlineData.mimeType !== 'string') {
+        throw new Error("AI failed to return an inpainted image with valid data and mimeType.");
+      }
+
+      return { data: inlineData.data, mimeType: inlineData.mimeType };
+    },
+
+    async inpaintRegion(image: InlineImage, mask: InlineImage, signal?: AbortSignal): Promise<InlineImage> {
+      const response = await ai.models.generateContent({
+        model: models.inpaint,
+        contents: {
+          parts: [
+            {
+              inlineData: { data: image.data, mimeType: image.mimeType },
+            },
+            {
+              inlineData: { data: mask.data, mimeType: mask.mimeType },
+            },
+            {
+              text: `
+The first image is a comic panel. The second image is a mask of the same size.
+Remove everything inside the white areas of the mask (text, speech bubbles, sound effects, watermarks or other marks)
+and seamlessly fill those areas by extending the surrounding artwork, matching its line work, coloring, shading and textures.
+Leave everything in the black areas of the mask exactly as it is.
+The output should be ONLY the modified panel, at the same size as the original.
+`,
+            },
+          ],
+        },
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      const inlineData = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+      if (!inlineData || typeof inlineData.data !== 'string' || typeof inlineData.mimeType !== 'string') {
+        throw new Error("AI failed to return an inpainted image with valid data and mimeType.");
+      }
+
+      return { data: inlineData.data, mimeType: inlineData.mimeType };
+    },
+
+    async detectSubjectCrops(image: InlineImage, width: number, height: number, signal?: AbortSignal): Promise<SubjectCrop[]> {
+      const response = await ai.models.generateContent({
+        model: models.crops,
+        contents: {
+          parts: [
+            { text: `
+                Analyze the composition of this comic panel, which is ${width}px wide and ${height}px tall. Your goal is to identify the main subjects or areas of interest.
+                - Subjects can be characters, important objects, or specific actions.
+                - Identify between 1 and 3 of the most important subjects.
+                - For each subject, provide a bounding box that tightly crops around it.
+
+                Return a JSON array of objects. Each object represents a crop and must contain "x", "y", "w" (width), and "h" (height) as integer pixel values.
+                The origin (0,0) is the top-left corner of the image.
+                The coordinates must be within the image bounds (0 to ${width} for x, 0 to ${height} for y).
+                Provide only the raw JSON array as your response.
+            `},
+            {
+              inlineData: { data: image.data, mimeType: image.mimeType },
+            }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                x: { type: Type.INTEGER },
+                y: { type: Type.INTEGER },
+                w: { type: Type.INTEGER },
+                h: { type: Type.INTEGER },
+              },
+              required: ["x", "y", "w", "h"]
+            }
+          }
+        }
+      });
+
+      try {
+        return JSON.parse((response.text || '[]').trim());
+      } catch (e) {
+        console.error("Failed to parse crop coordinates from AI", e);
+        console.error("Received text:", response.text);
+        return [];
+      }
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { AIProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { AISettings, loadAISettings } from '../settingsService';
+import { retryWithBackoff } from '../../utils/asyncUtils';
+import { getRetryAfterMs, isRateLimitError, isTransientError } from './errors';
+
+export * from './types';
+export * from './errors';
+
+export type ProviderName = 'gemini' | 'mock' | 'proxy';
+
+export const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'proxy':
+      return createProxyProvider(settings.proxyUrl);
+    case 'gemini':
+    default:
+      return createGeminiProvider({ apiKey: settings.apiKey, models: settings.models });
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+// Returns the provider for the saved settings, creating it on first use.
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(loadAISettings());
+  }
+  return activeProvider;
+};
+
+// Rebuilds the active provider after the settings have changed.
+export const configureAIProvider = (settings: AISettings) => {
+  activeProvider = createProvider(settings);
+};
+
+// Replaces the active provider, e.g. to run the pipeline against a custom backend.
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+// Rate limits apply to the whole key, so when one call is told to back off, every call waits.
+const providerCooldown = { until: 0 };
+
+// Runs an AI call, retrying transient failures with exponential backoff and honouring rate-limit delays.
+// `onRetry` receives a short message for progress displays; `signal` stops further attempts.
+export const withRetries = <T>(task: () => Promise<T>, onRetry?: (message: string) => void, signal?: AbortSignal): Promise<T> => {
+  return retryWithBackoff(task, {
+    signal,
+    retries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    isRetryable: isTransientError,
+    getRetryAfterMs,
+    cooldown: providerCooldown,
+    onRetry: (error, attempt, delayMs) => {
+      console.warn(`AI call failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`, error);
+      const reason = isRateLimitError(error) ? 'Rate limited' : 'Temporary error';
+      onRetry?.(`${reason}, retrying in ${Math.ceil(delayMs / 1000)}s`);
+    },
+  });
+};
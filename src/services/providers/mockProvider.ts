@@ -0,0 +1,87 @@
+import { PanelTiming, VoiceOption } from '../../types';
+import { sleep } from '../../utils/asyncUtils';
+import { AIProvider, CachedTask, InlineImage, ScriptTurn, SubjectCrop, TTS_SAMPLE_RATE } from './types';
+
+// A small artificial delay so progress messages are visible, as they would be with a real backend.
+const MOCK_LATENCY_MS = 150;
+
+// Roughly the pace of a narrator, used to size the synthesized audio.
+const WORDS_PER_SECOND = 2.5;
+
+// Each voice gets its own pitch so switching voices is audible.
+const VOICE_FREQUENCIES: Record<VoiceOption, number> = {
+  Kore: 262,
+  Zephyr: 294,
+  Puck: 330,
+  Charon: 196,
+  Fenrir: 220,
+};
+
+
+const countImages = (turns: ScriptTurn[]) =>
+  turns.filter(turn => turn.role === 'user').reduce((sum, turn) => sum + (turn.images?.length ?? 0), 0);
+
+// A deterministic offline backend for demos, development and testing. It never calls the network.
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+
+    async cacheTag(task: CachedTask): Promise<string> {
+      return `mock:${task}:v1`;
+    },
+
+    async validateConfig(): Promise<string[]> {
+      return [];
+    },
+
+    async continueScript(history: ScriptTurn[], message: ScriptTurn, signal?: AbortSignal): Promise<string> {
+      await sleep(MOCK_LATENCY_MS, signal);
+      const firstPanel = countImages(history) + 1;
+      const panelCount = message.images?.length ?? 0;
+      return Array.from({ length: panelCount }, (_, i) =>
+        `[Panel ${firstPanel + i}]\nThis is placeholder narration for panel ${firstPanel + i}. The story takes a dramatic turn as our hero presses on.`
+      ).join('\n\n');
+    },
+
+    async synthesizeSpeech(text: string, voice: VoiceOption, signal?: AbortSignal): Promise<Uint8Array> {
+      await sleep(MOCK_LATENCY_MS, signal);
+      const wordCount = text.split(/\s+/).filter(Boolean).length;
+      const duration = Math.max(1, wordCount / WORDS_PER_SECOND);
+      const sampleCount = Math.round(duration * TTS_SAMPLE_RATE);
+      const frequency = VOICE_FREQUENCIES[voice] ?? 220;
+
+      // A quiet tone that pulses once per "word" so the waveform looks like speech.
+      const samples = new Int16Array(sampleCount);
+      const samplesPerWord = TTS_SAMPLE_RATE / WORDS_PER_SECOND;
+      for (let i = 0; i < sampleCount; i++) {
+        const envelope = Math.sin(Math.PI * ((i % samplesPerWord) / samplesPerWord));
+        samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / TTS_SAMPLE_RATE) * envelope * 0.2 * 32767);
+      }
+      return new Uint8Array(samples.buffer);
+    },
+
+    async generateTimings(_script: string, panelCount: number, audioDuration: number, signal?: AbortSignal): Promise<PanelTiming[]> {
+      await sleep(MOCK_LATENCY_MS, signal);
+      const interval = audioDuration / panelCount;
+      return Array.from({ length: panelCount }, (_, i) => ({ panel: i + 1, startTime: i * interval }));
+    },
+
+    async inpaintImage(image: InlineImage, signal?: AbortSignal): Promise<InlineImage> {
+      await sleep(MOCK_LATENCY_MS, signal);
+      return image;
+    },
+
+    async inpaintRegion(image: InlineImage, _mask: InlineImage, signal?: AbortSignal): Promise<InlineImage> {
+      await sleep(MOCK_LATENCY_MS, signal);
+      return image;
+    },
+
+    async detectSubjectCrops(_image: InlineImage, width: number, height: number, signal?: AbortSignal): Promise<SubjectCrop[]> {
+      await sleep(MOCK_LATENCY_MS, signal);
+      // A single centered crop covering the middle 60% of the panel.
+      const w = Math.round(width * 0.6);
+      const h = Math.round(height * 0.6);
+      return [{ x: Math.round((width - w) / 2), y: Math.round((height - h) / 2), w, h }];
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { PanelTiming, VoiceOption } from '../../types';
+import { decode } from '../../utils/audioUtils';
+import { AIProvider, CachedTask, InlineImage, ScriptTurn, SubjectCrop } from './types';
+
+// An error response from the proxy server; `status` is the HTTP status code.
+export class ProxyRequestError extends Error {
+  constructor(message: string, public status: number, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ProxyRequestError';
+  }
+}
+
+// How long the server's cache tags are reused before asking it again, e.g. after it switched models.
+const SERVER_TAGS_MS = 5 * 60_000;
+
+interface HealthResponse {
+  problems: string[];
+  cacheTags: Record<CachedTask, string>;
+}
+
+// Calls the backend proxy server (see server/) instead of the AI provider, so no key is needed in the browser.
+export function createProxyProvider(baseUrl: string): AIProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(path: string, body?: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await fetch(`${root}${path}`, body === undefined ? { signal } : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw new ProxyRequestError(payload.error ?? `Proxy request failed with status ${response.status}.`, response.status, retryAfter);
+    }
+    return payload as T;
+  };
+
+  // The server reports which model and prompt version it runs each task with; a failed lookup is retried next time.
+  let serverTags: { fetchedAt: number, tags: Promise<Record<CachedTask, string>> } | null = null;
+  const getServerTags = (): Promise<Record<CachedTask, string>> => {
+    if (!serverTags || Date.now() - serverTags.fetchedAt > SERVER_TAGS_MS) {
+      const tags = request<HealthResponse>('/api/health').then(health => health.cacheTags);
+      serverTags = { fetchedAt: Date.now(), tags };
+      tags.catch(() => { serverTags = null; });
+    }
+    return serverTags.tags;
+  };
+
+  return {
+    name: 'proxy',
+
+    // The models and prompts are chosen on the server, so results are cached per server and per its tag for the task.
+    async cacheTag(task: CachedTask): Promise<string> {
+      const tags = await getServerTags();
+      return `proxy:${root}:${tags[task]}`;
+    },
+
+    async validateConfig(): Promise<string[]> {
+      try {
+        const { problems } = await request<HealthResponse>('/api/health');
+        return problems;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return [`Could not reach the proxy server at ${root}: ${message}`];
+      }
+    },
+
+    async continueScript(history: ScriptTurn[], message: ScriptTurn, signal?: AbortSignal): Promise<string> {
+      const { text } = await request<{ text: string }>('/api/script', { history, message }, signal);
+      return text;
+    },
+
+    async synthesizeSpeech(text: string, voice: VoiceOption, signal?: AbortSignal): Promise<Uint8Array> {
+      const { audio } = await request<{ audio: string }>('/api/voiceover', { text, voice }, signal);
+      return decode(audio);
+    },
+
+    async generateTimings(script: string, panelCount: number, audioDuration: number, signal?: AbortSignal): Promise<PanelTiming[]> {
+      const { timings } = await request<{ timings: PanelTiming[] }>('/api/timings', { script, panelCount, audioDuration }, signal);
+      return timings;
+    },
+
+    async inpaintImage(image: InlineImage, signal?: AbortSignal): Promise<InlineImage> {
+      const { image: result } = await request<{ image: InlineImage }>('/api/inpaint', { image }, signal);
+      return result;
+    },
+
+    async inpaintRegion(image: InlineImage, mask: InlineImage, signal?: AbortSignal): Promise<InlineImage> {
+      const { image: result } = await request<{ image: InlineImage }>('/api/inpaint-region', { image, mask }, signal);
+      return result;
+    },
+
+    async detectSubjectCrops(image: InlineImage, width: number, height: number, signal?: AbortSignal): Promise<SubjectCrop[]> {
+      const { crops } = await request<{ crops: SubjectCrop[] }>('/api/crops', { image, width, height }, signal);
+      return crops;
+    },
+  };
+}
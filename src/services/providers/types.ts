@@ -0,0 +1,43 @@
+import { CropRect, PanelTiming, VoiceOption } from '../../types';
+
+// The TTS backends return raw 16-bit mono PCM at this sample rate.
+export const TTS_SAMPLE_RATE = 24000;
+
+export interface InlineImage {
+  data: string; // base64, without the data URL prefix
+  mimeType: string;
+}
+
+// One message of the script-writing conversation. The conversation is passed in full on
+// every call so that providers stay stateless.
+export interface ScriptTurn {
+  role: 'user' | 'model';
+  text: string;
+  images?: InlineImage[];
+}
+
+export type SubjectCrop = Omit<CropRect, 'id'>;
+
+// Tasks whose results are cached per image (see panelCache).
+export type CachedTask = 'inpaint' | 'crops';
+
+// Every call that reaches the backend takes an optional AbortSignal to cancel it.
+export interface AIProvider {
+  name: string;
+  // Identifies the model and prompt behind a cached task; cached results are only reused while it is unchanged.
+  cacheTag(task: CachedTask): Promise<string>;
+  // Checks the configuration against the backend; returns a list of problems (empty when valid).
+  validateConfig(): Promise<string[]>;
+  // Sends the next message of the script conversation and returns the model's reply.
+  continueScript(history: ScriptTurn[], message: ScriptTurn, signal?: AbortSignal): Promise<string>;
+  // Returns raw PCM audio (see TTS_SAMPLE_RATE) narrating the text.
+  synthesizeSpeech(text: string, voice: VoiceOption, signal?: AbortSignal): Promise<Uint8Array>;
+  // Decides when each panel should appear while the script is narrated.
+  generateTimings(script: string, panelCount: number, audioDuration: number, signal?: AbortSignal): Promise<PanelTiming[]>;
+  // Removes text and speech bubbles from a panel.
+  inpaintImage(image: InlineImage, signal?: AbortSignal): Promise<InlineImage>;
+  // Repaints the areas that are white in `mask` (black elsewhere, same size as the image) to match the surrounding art.
+  inpaintRegion(image: InlineImage, mask: InlineImage, signal?: AbortSignal): Promise<InlineImage>;
+  // Finds the main subjects of a panel, in pixel coordinates of the given image size.
+  detectSubjectCrops(image: InlineImage, width: number, height: number, signal?: AbortSignal): Promise<SubjectCrop[]>;
+}
@@ -0,0 +1,66 @@
+import { GeminiModels, DEFAULT_GEMINI_MODELS } from './providers/geminiProvider';
+import type { ProviderName } from './providers';
+
+const STORAGE_KEY = 'manhwa-video-creator:ai-settings';
+
+export interface AISettings {
+  provider: ProviderName;
+  apiKey: string;
+  models: GeminiModels;
+  proxyUrl: string; // Base URL of the backend proxy server, used by the 'proxy' provider
+  maxConcurrentRequests: number; // How many panels or voiceover parts are processed at once
+}
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  // The build can still choose the default backend, e.g. 'mock' for offline demos.
+  provider: (process.env.AI_PROVIDER as ProviderName) || 'gemini',
+  apiKey: '',
+  models: DEFAULT_GEMINI_MODELS,
+  proxyUrl: process.env.AI_PROXY_URL || 'http://localhost:8787',
+  maxConcurrentRequests: 3,
+};
+
+export const MAX_CONCURRENT_REQUESTS_LIMIT = 10;
+
+// Settings are kept in this browser only; the key is never part of the deployed bundle.
+export const loadAISettings = (): AISettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_AI_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AISettings>;
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...stored,
+      models: { ...DEFAULT_AI_SETTINGS.models, ...stored.models },
+    };
+  } catch (error) {
+    console.error("Could not read saved AI settings, using defaults.", error);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Quick local checks that don't need the network. Returns a list of problems (empty when valid).
+export const getSettingsProblems = (settings: AISettings): string[] => {
+  const problems: string[] = [];
+  if (settings.provider === 'gemini') {
+    if (!settings.apiKey.trim()) {
+      problems.push('Enter your Gemini API key.');
+    }
+    for (const [task, model] of Object.entries(settings.models)) {
+      if (!model.trim()) {
+        problems.push(`Choose a model for ${task}.`);
+      }
+    }
+  }
+  if (settings.provider === 'proxy' && !/^https?:\/\/\S+$/.test(settings.proxyUrl.trim())) {
+    problems.push('Enter the proxy server URL, e.g. http://localhost:8787.');
+  }
+  if (!Number.isInteger(settings.maxConcurrentRequests) || settings.maxConcurrentRequests < 1 || settings.maxConcurrentRequests > MAX_CONCURRENT_REQUESTS_LIMIT) {
+    problems.push(`Parallel requests must be a whole number from 1 to ${MAX_CONCURRENT_REQUESTS_LIMIT}.`);
+  }
+  return problems;
+};
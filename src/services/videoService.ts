@@ -1,12 +1,26 @@
 
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import { EditedClip, VideoSettings, TransitionOption } from '../types';
+import { EditedClip, VideoSettings, TransitionOption, CameraKeyframe, EasingOption, AnimationStyleOption } from '../types';
+import { fitRectToAspect, normalizeKeyframes } from '../utils/cameraUtils';
+import { LayoutCell, getClipLayout, getLayoutCells, getLayoutSources, getShotDurations, getShotFadeDuration } from '../utils/layoutUtils';
+import { createAbortError, throwIfAborted } from '../utils/asyncUtils';
 
 const FFMPEG_BASE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
 
 let ffmpeg: FFmpeg | null = null;
 
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  resolution: '1080p',
+  fps: 30,
+  aspectRatio: '16:9',
+  transition: 'fade',
+  animation: 'zoom',
+  layout: 'side_by_side',
+  background: 'solid',
+  backgroundColor: '#000000',
+};
+
 const getDimensions = (
   resolution: VideoSettings['resolution'], 
   aspectRatio: VideoSettings['aspectRatio']
@@ -32,6 +46,113 @@ const getXfadeTransitionName = (transition: TransitionOption): string => {
     return mapping[transition] || 'fade';
 };
 
+// Camera moves are rendered on a canvas this many times the output size, so the rounding
+// of zoompan's pan position doesn't make slow moves jitter.
+const CAMERA_OVERSAMPLING = 2;
+
+// Background image formats ffmpeg.wasm decodes, and the file extension it needs to recognise them.
+const BACKGROUND_IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+// How much smaller the panel is blurred for the 'blur' background fill.
+const BLUR_DOWNSCALE = 8;
+
+// FFmpeg expression applying an easing curve to the expression `s` (0 to 1).
+const easingExpression = (easing: EasingOption, s: string): string => {
+    switch (easing) {
+        case 'ease-in': return `${s}*${s}`;
+        case 'ease-out': return `${s}*(2-${s})`;
+        case 'ease-in-out': return `${s}*${s}*(3-2*${s})`;
+        default: return s;
+    }
+};
+
+// FFmpeg expression for a value that moves from keyframe to keyframe as `progress` (0 to 1) advances.
+const keyframeExpression = (keyframes: CameraKeyframe[], values: number[], progress: string): string => {
+    let expression = values[values.length - 1].toFixed(3);
+    for (let k = keyframes.length - 2; k >= 0; k--) {
+        const { time: t0, easing } = keyframes[k];
+        const t1 = keyframes[k + 1].time;
+        if (t1 <= t0) continue;
+        const s = `((${progress}-${t0.toFixed(4)})/${(t1 - t0).toFixed(4)})`;
+        const segment = `${values[k].toFixed(3)}+${(values[k + 1] - values[k]).toFixed(3)}*${easingExpression(easing, s)}`;
+        expression = `if(lt(${progress},${t1.toFixed(4)}),${segment},${expression})`;
+    }
+    return expression;
+};
+
+// Filters writing a `width` x `height` background lasting `duration` seconds to the stream `[name]`. `panelInput`
+// is blurred for the 'blur' fill; `imageInput` is the custom background image input, if there is one.
+const buildBackgroundFilter = (
+    name: string,
+    settings: VideoSettings,
+    panelInput: number,
+    imageInput: number | null,
+    width: number,
+    height: number,
+    duration: number
+): string => {
+    const color = /^#[0-9a-f]{6}$/i.test(settings.backgroundColor) ? `0x${settings.backgroundColor.slice(1)}` : 'black';
+    const base = `color=c=${color}:s=${width}x${height}:r=${settings.fps}:d=${duration}`;
+
+    let fill = '';
+    if (settings.background === 'blur') {
+        // Blurring a small copy and scaling it up is much cheaper than blurring at full size.
+        const smallWidth = Math.max(2, Math.round(width / BLUR_DOWNSCALE));
+        const smallHeight = Math.max(2, Math.round(height / BLUR_DOWNSCALE));
+        fill = `[${panelInput}:v]scale=${smallWidth}:${smallHeight}:force_original_aspect_ratio=increase,crop=${smallWidth}:${smallHeight},`
+            + `boxblur=8:2,scale=${width}:${height}`;
+    } else if (settings.background === 'image' && imageInput !== null) {
+        fill = `[${imageInput}:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+    }
+    if (!fill) return `${base}[${name}];`;
+    // The fill is a single frame; overlay keeps showing it for the whole duration of the colour source.
+    return `${fill},setsar=1[${name}_fill];${base}[${name}_base];[${name}_base][${name}_fill]overlay[${name}];`;
+};
+
+// Filters that turn a panel image into a clip following the camera keyframes, starting from the panel already
+// fitted onto a canvas CAMERA_OVERSAMPLING times the output size: zoompan frames each keyframe's area, grown to
+// the video's aspect ratio.
+const buildCameraFilter = (
+    keyframes: CameraKeyframe[],
+    imageSize: { width: number, height: number },
+    width: number,
+    height: number,
+    numFrames: number,
+    fps: number
+): string => {
+    const canvasWidth = width * CAMERA_OVERSAMPLING;
+    const canvasHeight = height * CAMERA_OVERSAMPLING;
+    const scale = Math.min(canvasWidth / imageSize.width, canvasHeight / imageSize.height);
+    const offsetX = (canvasWidth - imageSize.width * scale) / 2;
+    const offsetY = (canvasHeight - imageSize.height * scale) / 2;
+
+    const sorted = normalizeKeyframes(keyframes);
+    const rects = sorted.map(({ rect }) => fitRectToAspect(
+        { x: offsetX + rect.x * scale, y: offsetY + rect.y * scale, w: rect.w * scale, h: rect.h * scale },
+        width / height,
+        canvasWidth,
+        canvasHeight
+    ));
+    const progress = `on/${Math.max(1, numFrames - 1)}`;
+    const w = keyframeExpression(sorted, rects.map(rect => rect.w), progress);
+    const x = keyframeExpression(sorted, rects.map(rect => rect.x), progress);
+    const y = keyframeExpression(sorted, rects.map(rect => rect.y), progress);
+
+    return `zoompan=z='${canvasWidth}/(${w})':x='${x}':y='${y}':d=${numFrames}:s=${width}x${height}:fps=${fps}`;
+};
+
+// Filter animating one crop for `duration` seconds, at the crop's own size.
+const buildCropAnimationFilter = (crop: LayoutCell, animation: AnimationStyleOption, duration: number, fps: number): string => {
+    const numFrames = Math.max(1, Math.ceil(duration * fps));
+    if (animation === 'pan_down') {
+        return `zoompan=z=1.1:d=${numFrames}:x='iw/2-(iw/zoom/2)':y='(ih-ih/1.1)*t/${duration}':s=${crop.w}x${crop.h}:fps=${fps}`;
+    } else if (animation === 'zoom') {
+        const zoomRate = 0.1 / duration; // Total zoom over clip duration
+        return `zoompan=z='min(zoom+${zoomRate}*t, 1.1)':d=${numFrames}:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':s=${crop.w}x${crop.h}:fps=${fps}`;
+    }
+    return `scale=${crop.w}:${crop.h}`; // 'none'
+};
+
 async function loadFFmpeg(onLogMessage: (message: string) => void, onProgress: (progress: number) => void): Promise<FFmpeg> {
     if (ffmpeg && ffmpeg.loaded) {
         return ffmpeg;
@@ -56,15 +177,36 @@ async function loadFFmpeg(onLogMessage: (message: string) => void, onProgress: (
     return ffmpeg;
 }
 
+// Runs an FFmpeg command that can be cancelled. FFmpeg can't stop a running command, so cancelling
+// terminates the whole instance; the next render loads a fresh one.
+async function execAbortable(ffmpegInstance: FFmpeg, command: string[], signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    const onAbort = () => {
+        ffmpegInstance.terminate();
+        if (ffmpeg === ffmpegInstance) ffmpeg = null;
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        await ffmpegInstance.exec(command);
+    } catch (e) {
+        if (signal?.aborted) throw createAbortError();
+        throw e;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
 export async function renderVideo(
   editedClips: EditedClip[],
   audioBlob: Blob,
   onProgress: (progress: number) => void,
   onLogMessage: (message: string) => void,
-  settings: VideoSettings
+  settings: VideoSettings,
+  signal?: AbortSignal
 ): Promise<Blob> {
     onLogMessage('Initializing rendering engine...');
     const ffmpegInstance = await loadFFmpeg(onLogMessage, onProgress);
+    throwIfAborted(signal);
     
     onProgress(0);
     onLogMessage('Preparing assets for unified render...');
@@ -80,18 +222,38 @@ export async function renderVideo(
     });
 
     const panelIdToInputIndex = new Map<string, number>();
+    const panelImageSizes = new Map<string, { width: number, height: number }>();
     let inputIndex = 0;
     for (const panelId of uniquePanels.keys()) {
         const panelData = uniquePanels.get(panelId)!;
         const fileName = `input_${inputIndex}.png`;
         const fetchResponse = await fetch(`data:${panelData.mime};base64,${panelData.base64}`);
-        await ffmpegInstance.writeFile(fileName, new Uint8Array(await fetchResponse.arrayBuffer()));
+        const imageBlob = await fetchResponse.blob();
+        await ffmpegInstance.writeFile(fileName, new Uint8Array(await imageBlob.arrayBuffer()));
+        // Camera moves are planned in image pixels, so they need the image size.
+        const bitmap = await createImageBitmap(imageBlob);
+        panelImageSizes.set(panelId, { width: bitmap.width, height: bitmap.height });
+        bitmap.close();
         
         command.push('-i', fileName);
         panelIdToInputIndex.set(panelId, inputIndex);
         inputIndex++;
     }
 
+    let backgroundImageInputIndex: number | null = null;
+    if (settings.background === 'image' && settings.backgroundImage) {
+        const fetchResponse = await fetch(`data:${settings.backgroundImage.mimeType};base64,${settings.backgroundImage.imageBase64}`);
+        const extension = BACKGROUND_IMAGE_EXTENSIONS[settings.backgroundImage.mimeType];
+        if (!extension) {
+            throw new Error(`The background image must be a PNG, JPEG or WebP file (got ${settings.backgroundImage.mimeType}).`);
+        }
+        const fileName = `background.${extension}`;
+        await ffmpegInstance.writeFile(fileName, new Uint8Array(await fetchResponse.arrayBuffer()));
+        command.push('-i', fileName);
+        backgroundImageInputIndex = inputIndex;
+        inputIndex++;
+    }
+
     const audioInputIndex = inputIndex;
     await ffmpegInstance.writeFile('audio.wav', await fetchFile(audioBlob));
     command.push('-i', 'audio.wav');
@@ -107,34 +269,76 @@ export async function renderVideo(
     editedClips.forEach((clip, i) => {
         const clipOutputStream = `[v_clip_${i}]`;
         const numFrames = Math.max(1, Math.ceil(clip.duration * settings.fps));
+        const sourceInputIndex = panelIdToInputIndex.get(clip.panelId)!;
+        const addBackground = (name: string, backgroundWidth: number, backgroundHeight: number, duration: number) => {
+            filterGraph += buildBackgroundFilter(name, settings, sourceInputIndex, backgroundImageInputIndex, backgroundWidth, backgroundHeight, duration);
+        };
+
+        if (clip.camera && clip.camera.length >= 2) {
+            // zoompan turns every input frame into a whole clip, so the canvas it pans over is a single frame.
+            const canvasWidth = width * CAMERA_OVERSAMPLING;
+            const canvasHeight = height * CAMERA_OVERSAMPLING;
+            addBackground(`camerabg_${i}`, canvasWidth, canvasHeight, 1 / settings.fps);
+            filterGraph += `[${sourceInputIndex}:v]scale=${canvasWidth}:${canvasHeight}:force_original_aspect_ratio=decrease,setsar=1[camerapanel_${i}];`;
+            const cameraFilter = buildCameraFilter(clip.camera, panelImageSizes.get(clip.panelId)!, width, height, numFrames, settings.fps);
+            filterGraph += `[camerabg_${i}][camerapanel_${i}]overlay=x=(W-w)/2:y=(H-h)/2,trim=end_frame=1,${cameraFilter},trim=duration=${clip.duration},setpts=PTS-STARTPTS${clipOutputStream};`;
+            clipVideoStreams.push(clipOutputStream);
+            return;
+        }
         
-        // Create an animated stream for each crop
-        const animatedCropStreams = clip.crops.map((crop, j) => {
-            const sourceInputIndex = panelIdToInputIndex.get(clip.panelId)!;
-            const animStream = `[anim_${i}_${j}]`;
-            
-            let zoompanFilter = '';
-            if (settings.animation === 'pan_down') {
-                zoompanFilter = `zoompan=z=1.1:d=${numFrames}:x='iw/2-(iw/zoom/2)':y='(ih-ih/1.1)*t/${clip.duration}':s=${crop.w}x${crop.h}:fps=${settings.fps}`;
-            } else if (settings.animation === 'zoom') {
-                const zoomRate = 0.1 / clip.duration; // Total zoom over clip duration
-                zoompanFilter = `zoompan=z='min(zoom+${zoomRate}*t, 1.1)':d=${numFrames}:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':s=${crop.w}x${crop.h}:fps=${settings.fps}`;
-            } else { // 'none'
-                zoompanFilter = `scale=${crop.w}:${crop.h}`;
+        const layout = getClipLayout(clip, settings.layout);
+        if (layout === 'sequence' && clip.crops.length > 1) {
+            // Each crop is its own full-frame shot. With fades, every shot but the last runs on for the length
+            // of the fade into the next one, so the shots still start at their own share of the clip.
+            const shotDurations = getShotDurations(clip);
+            const fadeDuration = clip.shotTransition === 'fade' ? getShotFadeDuration(shotDurations) : 0;
+            const shotStreams = clip.crops.map((crop, j) => {
+                const shotStream = `[shot_${i}_${j}]`;
+                const shotDuration = shotDurations[j] + (j < clip.crops.length - 1 ? fadeDuration : 0);
+                addBackground(`shotbg_${i}_${j}`, width, height, shotDuration);
+                filterGraph += `[${sourceInputIndex}:v]crop=${crop.w}:${crop.h}:${crop.x}:${crop.y},`
+                    + `${buildCropAnimationFilter(crop, settings.animation, shotDuration, settings.fps)},`
+                    + `scale=${width}:${height}:force_original_aspect_ratio=decrease,setsar=1,setpts=PTS-STARTPTS[shotcrop_${i}_${j}];`;
+                filterGraph += `[shotbg_${i}_${j}][shotcrop_${i}_${j}]overlay=x=(W-w)/2:y=(H-h)/2,trim=duration=${shotDuration},setpts=PTS-STARTPTS${shotStream};`;
+                return shotStream;
+            });
+
+            if (fadeDuration > 0) {
+                let lastStream = shotStreams[0];
+                let shotOffset = 0;
+                for (let j = 1; j < shotStreams.length; j++) {
+                    shotOffset += shotDurations[j - 1];
+                    const outputStream = `[shotfade_${i}_${j}]`;
+                    filterGraph += `${lastStream}${shotStreams[j]}xfade=transition=fade:duration=${fadeDuration}:offset=${shotOffset}${outputStream};`;
+                    lastStream = outputStream;
+                }
+                filterGraph += `${lastStream}trim=duration=${clip.duration},setpts=PTS-STARTPTS${clipOutputStream};`;
+            } else {
+                filterGraph += `${shotStreams.join('')}concat=n=${shotStreams.length}:v=1:a=0,trim=duration=${clip.duration},setpts=PTS-STARTPTS${clipOutputStream};`;
             }
+            clipVideoStreams.push(clipOutputStream);
+            return;
+        }
+
+        // Animate each crop (and, for picture-in-picture, the whole panel behind them), then place each one in
+        // its cell of the frame, scaled to fit, over the background.
+        const imageSize = panelImageSizes.get(clip.panelId)!;
+        const sources = getLayoutSources(layout, clip.crops, imageSize.width, imageSize.height);
+        const cells = getLayoutCells(layout, Math.max(1, clip.crops.length), width, height);
 
-            filterGraph += `[${sourceInputIndex}:v]crop=${crop.w}:${crop.h}:${crop.x}:${crop.y},${zoompanFilter},setpts=PTS-STARTPTS[${animStream}];`;
-            return animStream;
+        addBackground(`bg_${i}`, width, height, clip.duration);
+        let composedStream = `[bg_${i}]`;
+        sources.forEach((crop, j) => {
+            const cell = cells[j];
+            const animStream = `[anim_${i}_${j}]`;
+            const outputStream = `[layout_${i}_${j}]`;
+            const zoompanFilter = buildCropAnimationFilter(crop, settings.animation, clip.duration, settings.fps);
+            filterGraph += `[${sourceInputIndex}:v]crop=${crop.w}:${crop.h}:${crop.x}:${crop.y},${zoompanFilter},`
+                + `scale=${cell.w}:${cell.h}:force_original_aspect_ratio=decrease,setsar=1,setpts=PTS-STARTPTS${animStream};`;
+            filterGraph += `${composedStream}${animStream}overlay=x='${cell.x}+(${cell.w}-w)/2':y='${cell.y}+(${cell.h}-h)/2'${outputStream};`;
+            composedStream = outputStream;
         });
-        
-        // Layout the animated crops side-by-side
-        if(animatedCropStreams.length > 1) {
-            const hstackInputStream = animatedCropStreams.join('');
-            filterGraph += `${hstackInputStream}hstack=inputs=${animatedCropStreams.length}[hstack_${i}];`;
-            filterGraph += `[hstack_${i}]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,trim=duration=${clip.duration},setpts=PTS-STARTPTS${clipOutputStream};`;
-        } else if (animatedCropStreams.length === 1) {
-            filterGraph += `${animatedCropStreams[0]}scale=${width}:${height},trim=duration=${clip.duration},setpts=PTS-STARTPTS${clipOutputStream};`;
-        }
+        filterGraph += `${composedStream}trim=duration=${clip.duration},setpts=PTS-STARTPTS${clipOutputStream};`;
         
         clipVideoStreams.push(clipOutputStream);
     });
@@ -178,7 +382,7 @@ export async function renderVideo(
     );
     
     onLogMessage('Rendering unified video... (This will be much faster now)');
-    await ffmpegInstance.exec(command);
+    await execAbortable(ffmpegInstance, command, signal);
     
     onProgress(100);
     onLogMessage('Finalizing video file...');
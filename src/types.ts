@@ -5,8 +5,40 @@ export interface ManhwaPanel {
   preview: string; // URL.createObjectURL
 }
 
+// How panels on an imported page are ordered: top-to-bottom strips, western comics, or Japanese manga.
+export type ReadingDirection = 'webtoon' | 'ltr' | 'rtl';
+
 export type VoiceOption = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
 
+// A piece of narration tied to the panel shown while it is spoken.
+export interface ScriptSegment {
+  panel: number; // 1-based index of the panel
+  text: string;
+}
+
+// A group of panels written in one turn of the script conversation. Finished batches keep the model's reply,
+// which is replayed as history, so a failed run can resume where it stopped and single batches can be rewritten.
+export interface ScriptBatch {
+  start: number; // First panel of the batch, 1-based
+  end: number; // Last panel of the batch, inclusive
+  panelIds: string[];
+  language: string;
+  status: 'pending' | 'done' | 'failed';
+  reply?: string; // The model's reply, set once the batch is done
+  segments?: ScriptSegment[];
+  error?: string;
+}
+
+// One part of a long script, synthesized separately and stitched into the final voiceover.
+export interface VoiceoverChunk {
+  text: string;
+  voice: VoiceOption;
+  segment?: number; // Index of the script segment this chunk belongs to, for segmented scripts
+  status: 'pending' | 'synthesizing' | 'done' | 'failed';
+  audio?: Uint8Array; // Raw PCM from the provider, set once the chunk is done
+  error?: string;
+}
+
 export interface PanelTiming {
   panel: number; // 1-based index of the panel
   startTime: number; // in seconds
@@ -18,28 +50,64 @@ export interface CropRect {
   w: number;
   h: number;
   id: string; // Unique ID for React key prop
+  weight?: number; // Share of the clip's time the crop is shown for in the sequence layout (default 1)
 }
 
+// How a clip arranges its crops in the frame: all at once (side by side, stacked, in a grid, or inset over the
+// whole panel as picture-in-picture), or one after another as separate shots.
+export type CropLayoutOption = 'side_by_side' | 'stacked' | 'grid' | 'pip' | 'sequence';
+export type ShotTransitionOption = 'cut' | 'fade';
+
+export type EasingOption = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+// Where the camera points at a moment of the clip. The camera glides from each keyframe to the next.
+export interface CameraKeyframe {
+  id: string; // Unique ID for React key prop
+  time: number; // Position in the clip, from 0 (start) to 1 (end)
+  rect: Omit<CropRect, 'id'>; // Framed area in pixels of the clip's image
+  easing: EasingOption; // Easing of the move towards the next keyframe
+}
+
+// Whether the user kept the text-removed image of a panel after comparing it with the original.
+export type InpaintChoice = 'unreviewed' | 'accepted' | 'rejected';
+
 export interface EditedClip {
   startTime: number;
   duration: number;
-  inpaintedImageBase64: string;
+  inpaintedImageBase64: string; // The image the clip shows: the original panel once the inpaint is rejected
   mimeType: string;
   crops: CropRect[];
   // Store original panel id for referencing the source image
   panelId: string; 
+  inpaintChoice: InpaintChoice;
+  layout?: CropLayoutOption; // Defaults to the project's layout
+  shotTransition?: ShotTransitionOption; // Between the shots of the sequence layout; defaults to 'cut'
+  // When set, the clip is one camera move over the whole panel instead of its crops animated side by side.
+  camera?: CameraKeyframe[];
+  // The text-removed image set aside while the original is used, so the choice can be changed back.
+  rejectedInpaint?: { imageBase64: string, mimeType: string };
 }
 
 export type ResolutionOption = '720p' | '1080p' | '1440p';
 export type AspectRatioOption = '16:9' | '9:16' | '1:1' | '4:3';
+// How the text is taken out of panels: AI inpainting, local speech bubble detection, or not at all.
+export type TextRemovalMode = 'ai' | 'local' | 'keep';
+
 export type FpsOption = 24 | 30 | 60;
 export type TransitionOption = 'cut' | 'fade' | 'slideleft' | 'slideright' | 'wipeleft' | 'wipedown';
 export type AnimationStyleOption = 'none' | 'zoom' | 'pan_down';
 
+// What fills the parts of the frame the picture doesn't cover: a solid colour, a blurred copy of the panel, or an image.
+export type BackgroundFillOption = 'solid' | 'blur' | 'image';
+
 export interface VideoSettings {
   resolution: ResolutionOption;
   fps: FpsOption;
   aspectRatio: AspectRatioOption;
   transition: TransitionOption;
   animation: AnimationStyleOption;
+  layout: CropLayoutOption; // Used by clips that don't choose their own
+  background: BackgroundFillOption;
+  backgroundColor: string; // Hex colour of the solid fill, e.g. '#000000'
+  backgroundImage?: { imageBase64: string, mimeType: string }; // Used by the 'image' fill
 }
@@ -0,0 +1,84 @@
+// The error every cancelled operation rejects with, matching what fetch throws for an aborted request.
+export const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: unknown } | null)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// Resolves after `ms`, or rejects as soon as `signal` is aborted.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timeout);
+    reject(createAbortError());
+  };
+  const timeout = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `task` for every item with at most `limit` tasks in flight, keeping results in input order.
+// Rejects with the first error; tasks already started are allowed to finish. No new tasks start once `signal` is aborted.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      throwIfAborted(signal);
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number; // Delay before the first retry; doubles on every further retry
+  maxDelayMs: number;
+  isRetryable: (error: unknown) => boolean;
+  // Minimum wait the failure asked for, e.g. from a Retry-After header.
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  // Shared between concurrent tasks: once one of them is told to back off, the others wait too.
+  cooldown?: { until: number };
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+}
+
+// Runs `task`, retrying retryable failures with exponential backoff and jitter.
+export async function retryWithBackoff<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const waitMs = (options.cooldown?.until ?? 0) - Date.now();
+    if (waitMs > 0) await sleep(waitMs, options.signal);
+    throwIfAborted(options.signal);
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted || attempt >= options.retries || !options.isRetryable(error)) throw error;
+      const backoffMs = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      const delayMs = Math.max(backoffMs, retryAfterMs ?? 0);
+      if (retryAfterMs !== undefined && options.cooldown) {
+        options.cooldown.until = Math.max(options.cooldown.until, Date.now() + retryAfterMs);
+      }
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -30,6 +30,57 @@ export async function decodeAudioData(
   return buffer;
 }
 
+// Joins audio buffers end to end with `pauseSeconds` of silence between them.
+// All buffers must share the context's sample rate.
+export function concatAudioBuffers(
+  buffers: AudioBuffer[],
+  ctx: BaseAudioContext,
+  pauseSeconds: number,
+): AudioBuffer {
+  const numChannels = Math.max(1, ...buffers.map(b => b.numberOfChannels));
+  const pauseFrames = Math.round(Math.max(0, pauseSeconds) * ctx.sampleRate);
+  const totalFrames = buffers.reduce((sum, b) => sum + b.length, 0) + pauseFrames * Math.max(0, buffers.length - 1);
+  const result = ctx.createBuffer(numChannels, Math.max(1, totalFrames), ctx.sampleRate);
+
+  let offset = 0;
+  buffers.forEach((buffer, index) => {
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Mono sources are copied into every output channel.
+      const source = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      result.getChannelData(channel).set(source, offset);
+    }
+    offset += buffer.length + (index < buffers.length - 1 ? pauseFrames : 0);
+  });
+  return result;
+}
+
+// Decodes an encoded audio file (e.g. the narration WAV) with the browser's decoder.
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx = new AudioContext();
+  try {
+    return await ctx.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    ctx.close();
+  }
+}
+
+// Reduces audio to `bucketCount` peak levels (0-1) for drawing a waveform.
+export function computeWaveformPeaks(buffer: AudioBuffer, bucketCount: number): Float32Array {
+  const data = buffer.getChannelData(0);
+  const peaks = new Float32Array(bucketCount);
+  const bucketSize = Math.max(1, Math.floor(data.length / bucketCount));
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    let peak = 0;
+    const end = Math.min(data.length, (bucket + 1) * bucketSize);
+    for (let i = bucket * bucketSize; i < end; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bucket] = peak;
+  }
+  return peaks;
+}
 
 // Converts an AudioBuffer to a WAV file (Blob).
 export function audioBufferToWav(buffer: AudioBuffer): Blob {
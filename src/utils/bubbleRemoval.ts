@@ -0,0 +1,175 @@
+import { ImageRegion } from './imageUtils';
+
+export interface BubbleDetectionOptions {
+  brightThreshold: number; // Minimum luminance (0-255) of bubble background pixels
+  textThreshold: number; // Maximum luminance of pixels counted as text inside a bubble
+  minAreaRatio: number; // Smallest bubble, as a fraction of the image area
+  maxAreaRatio: number; // Largest bubble, as a fraction of the image area
+  minFillRatio: number; // How much of its bounding box a bubble must cover (an ellipse covers ~0.79)
+  minTextRatio: number; // Smallest share of a bubble covered by text
+  maxTextRatio: number; // Largest share of a bubble covered by text; more means it is artwork, not a bubble
+}
+
+export const DEFAULT_BUBBLE_DETECTION_OPTIONS: BubbleDetectionOptions = {
+  brightThreshold: 225,
+  textThreshold: 110,
+  minAreaRatio: 0.002,
+  maxAreaRatio: 0.4,
+  minFillRatio: 0.6,
+  minTextRatio: 0.01,
+  maxTextRatio: 0.45,
+};
+
+export interface DetectedBubble extends ImageRegion {
+  color: [number, number, number]; // Average background colour of the bubble
+  pixels: Int32Array; // Indices of every pixel inside the bubble outline, text included
+}
+
+const luminance = (data: Uint8ClampedArray, index: number) =>
+  0.299 * data[index * 4] + 0.587 * data[index * 4 + 1] + 0.114 * data[index * 4 + 2];
+
+// Labels 4-connected regions of pixels where `include` is set. Returns the label of every pixel (-1 if excluded)
+// and the pixel indices of each region.
+const labelRegions = (include: Uint8Array, width: number, height: number): { labels: Int32Array, regions: number[][] } => {
+  const labels = new Int32Array(width * height).fill(-1);
+  const regions: number[][] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < include.length; start++) {
+    if (!include[start] || labels[start] !== -1) continue;
+    const label = regions.length;
+    const region: number[] = [];
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour !== -1 && include[neighbour] && labels[neighbour] === -1) {
+          labels[neighbour] = label;
+          stack.push(neighbour);
+        }
+      }
+    }
+    regions.push(region);
+  }
+  return { labels, regions };
+};
+
+// Finds speech bubbles and narration boxes: bright regions that don't touch the image edge, are roughly
+// elliptical or rectangular, and enclose some dark text.
+export const detectSpeechBubbles = (
+  imageData: ImageData,
+  options: Partial<BubbleDetectionOptions> = {}
+): DetectedBubble[] => {
+  const opts = { ...DEFAULT_BUBBLE_DETECTION_OPTIONS, ...options };
+  const { data, width, height } = imageData;
+  const imageArea = width * height;
+
+  const bright = new Uint8Array(imageArea);
+  for (let i = 0; i < imageArea; i++) {
+    bright[i] = luminance(data, i) >= opts.brightThreshold ? 1 : 0;
+  }
+  const { labels, regions } = labelRegions(bright, width, height);
+
+  const bubbles: DetectedBubble[] = [];
+  regions.forEach((region, label) => {
+    if (region.length < imageArea * opts.minAreaRatio) return;
+
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    for (const index of region) {
+      const x = index % width;
+      const y = (index - x) / width;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+    // A bright area running off the edge is usually sky or background, not an enclosed bubble.
+    if (minX === 0 || minY === 0 || maxX === width - 1 || maxY === height - 1) return;
+
+    // Everything in the bounding box that can't reach its border without crossing the region is enclosed by it:
+    // that is the text. Flood the outside from the border to find it.
+    const boxWidth = maxX - minX + 1;
+    const boxHeight = maxY - minY + 1;
+    const outside = new Uint8Array(boxWidth * boxHeight);
+    const stack: number[] = [];
+    const visit = (bx: number, by: number) => {
+      const local = by * boxWidth + bx;
+      if (outside[local] || labels[(minY + by) * width + minX + bx] === label) return;
+      outside[local] = 1;
+      stack.push(local);
+    };
+    for (let bx = 0; bx < boxWidth; bx++) {
+      visit(bx, 0);
+      visit(bx, boxHeight - 1);
+    }
+    for (let by = 0; by < boxHeight; by++) {
+      visit(0, by);
+      visit(boxWidth - 1, by);
+    }
+    while (stack.length > 0) {
+      const local = stack.pop()!;
+      const bx = local % boxWidth;
+      const by = (local - bx) / boxWidth;
+      if (bx > 0) visit(bx - 1, by);
+      if (bx < boxWidth - 1) visit(bx + 1, by);
+      if (by > 0) visit(bx, by - 1);
+      if (by < boxHeight - 1) visit(bx, by + 1);
+    }
+
+    const pixels: number[] = [];
+    let textPixels = 0;
+    for (let by = 0; by < boxHeight; by++) {
+      for (let bx = 0; bx < boxWidth; bx++) {
+        if (outside[by * boxWidth + bx]) continue;
+        const index = (minY + by) * width + minX + bx;
+        pixels.push(index);
+        if (labels[index] !== label && luminance(data, index) <= opts.textThreshold) textPixels++;
+      }
+    }
+
+    const filledArea = pixels.length;
+    if (filledArea > imageArea * opts.maxAreaRatio) return;
+    if (filledArea / (boxWidth * boxHeight) < opts.minFillRatio) return;
+    const textRatio = textPixels / filledArea;
+    if (textRatio < opts.minTextRatio || textRatio > opts.maxTextRatio) return;
+
+    const color: [number, number, number] = [0, 0, 0];
+    for (const index of region) {
+      color[0] += data[index * 4];
+      color[1] += data[index * 4 + 1];
+      color[2] += data[index * 4 + 2];
+    }
+    bubbles.push({
+      x: minX,
+      y: minY,
+      w: boxWidth,
+      h: boxHeight,
+      color: color.map(sum => Math.round(sum / region.length)) as [number, number, number],
+      pixels: Int32Array.from(pixels),
+    });
+  });
+  return bubbles;
+};
+
+// Blanks out the text in every detected bubble by filling the bubble with its own background colour.
+// Modifies `imageData` in place and returns the bubbles that were cleared.
+export const removeSpeechBubbles = (imageData: ImageData, options: Partial<BubbleDetectionOptions> = {}): DetectedBubble[] => {
+  const bubbles = detectSpeechBubbles(imageData, options);
+  const { data } = imageData;
+  for (const bubble of bubbles) {
+    for (const index of bubble.pixels) {
+      data[index * 4] = bubble.color[0];
+      data[index * 4 + 1] = bubble.color[1];
+      data[index * 4 + 2] = bubble.color[2];
+    }
+  }
+  return bubbles;
+};
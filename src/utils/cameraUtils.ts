@@ -0,0 +1,84 @@
+import { CameraKeyframe, CropRect, EasingOption } from '../types';
+
+export type Rect = Omit<CropRect, 'id'>;
+
+export const EASING_OPTIONS: { value: EasingOption, label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease In' },
+  { value: 'ease-out', label: 'Ease Out' },
+  { value: 'ease-in-out', label: 'Ease In & Out' },
+];
+
+// Maps progress through a move (0 to 1) to how far the camera has travelled.
+export const applyEasing = (easing: EasingOption, progress: number): number => {
+  switch (easing) {
+    case 'ease-in': return progress * progress;
+    case 'ease-out': return progress * (2 - progress);
+    case 'ease-in-out': return progress * progress * (3 - 2 * progress);
+    default: return progress;
+  }
+};
+
+export const createKeyframe = (time: number, rect: Rect, easing: EasingOption = 'ease-in-out'): CameraKeyframe => ({
+  id: crypto.randomUUID(),
+  time,
+  rect: { x: rect.x, y: rect.y, w: rect.w, h: rect.h },
+  easing,
+});
+
+// Sorts keyframes by time and pins the first to the start of the clip and the last to its end.
+export const normalizeKeyframes = (keyframes: CameraKeyframe[]): CameraKeyframe[] => {
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  return sorted.map((keyframe, i) => ({
+    ...keyframe,
+    time: i === 0 ? 0 : i === sorted.length - 1 ? 1 : Math.min(1, Math.max(0, keyframe.time)),
+  }));
+};
+
+// The framed area at `time` (0 to 1) of the clip.
+export const interpolateCamera = (keyframes: CameraKeyframe[], time: number): Rect => {
+  if (keyframes.length === 0) return { x: 0, y: 0, w: 0, h: 0 };
+  let index = 0;
+  while (index < keyframes.length - 2 && time >= keyframes[index + 1].time) index++;
+  const from = keyframes[index];
+  const to = keyframes[index + 1] ?? from;
+  const span = to.time - from.time;
+  const progress = span > 0 ? applyEasing(from.easing, Math.min(1, Math.max(0, (time - from.time) / span))) : 1;
+  const mix = (a: number, b: number) => a + (b - a) * progress;
+  return { x: mix(from.rect.x, to.rect.x), y: mix(from.rect.y, to.rect.y), w: mix(from.rect.w, to.rect.w), h: mix(from.rect.h, to.rect.h) };
+};
+
+// Grows a rect around its centre to the given aspect ratio (width / height), keeping it inside a
+// `boundsWidth` x `boundsHeight` area.
+export const fitRectToAspect = (rect: Rect, aspect: number, boundsWidth: number, boundsHeight: number): Rect => {
+  let { w, h } = rect;
+  if (w / h > aspect) h = w / aspect;
+  else w = h * aspect;
+  const scale = Math.min(1, boundsWidth / w, boundsHeight / h);
+  w *= scale;
+  h *= scale;
+  const x = Math.min(boundsWidth - w, Math.max(0, rect.x + rect.w / 2 - w / 2));
+  const y = Math.min(boundsHeight - h, Math.max(0, rect.y + rect.h / 2 - h / 2));
+  return { x, y, w, h };
+};
+
+// Keyframes for common moves over an image with the given crops.
+export const CAMERA_PRESETS: { name: string, create: (crops: Rect[], width: number, height: number) => CameraKeyframe[] }[] = [
+  {
+    name: 'Zoom Out',
+    create: (crops, width, height) => [createKeyframe(0, crops[0] ?? { x: 0, y: 0, w: width, h: height }), createKeyframe(1, { x: 0, y: 0, w: width, h: height })],
+  },
+  {
+    name: 'Zoom In',
+    create: (crops, width, height) => [createKeyframe(0, { x: 0, y: 0, w: width, h: height }), createKeyframe(1, crops[0] ?? { x: 0, y: 0, w: width, h: height })],
+  },
+  {
+    // Visits each crop in turn, then pulls back to the whole panel.
+    name: 'Through Crops',
+    create: (crops, width, height) => {
+      const full = { x: 0, y: 0, w: width, h: height };
+      const rects = crops.length > 0 ? [...crops, full] : [full, full];
+      return rects.map((rect, i) => createKeyframe(i / (rects.length - 1), rect));
+    },
+  },
+];
@@ -0,0 +1,87 @@
+import { CropRect } from '../types';
+import { fitRectToAspect, Rect } from './cameraUtils';
+
+// The edge or corner a crop is resized from, by compass direction.
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+
+// Smallest crop side, in image pixels.
+export const MIN_CROP_SIZE = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Moves a rect by (dx, dy), keeping it inside a `boundsWidth` x `boundsHeight` image.
+export const moveRect = <T extends Rect>(rect: T, dx: number, dy: number, boundsWidth: number, boundsHeight: number): T => ({
+  ...rect,
+  x: clamp(rect.x + dx, 0, boundsWidth - rect.w),
+  y: clamp(rect.y + dy, 0, boundsHeight - rect.h),
+});
+
+// Drags one edge or corner of `start` by (dx, dy), keeping the opposite side in place and the rect inside the image.
+// With `aspect` (width / height), the rect keeps that shape: an edge handle resizes around the middle of its edge.
+export const resizeRect = <T extends Rect>(
+  start: T,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  boundsWidth: number,
+  boundsHeight: number,
+  aspect?: number
+): T => {
+  let left = start.x, top = start.y, right = start.x + start.w, bottom = start.y + start.h;
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_CROP_SIZE, boundsWidth);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, boundsHeight);
+  if (!aspect) return { ...start, x: left, y: top, w: right - left, h: bottom - top };
+
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  let w = right - left, h = bottom - top;
+  if (horizontal && vertical) {
+    if (w / h > aspect) h = w / aspect;
+    else w = h * aspect;
+  } else if (horizontal) {
+    h = w / aspect;
+  } else {
+    w = h * aspect;
+  }
+
+  // The point that stays put, and how much room the rect has from there.
+  const anchorX = handle.includes('w') ? right : handle.includes('e') ? left : start.x + start.w / 2;
+  const anchorY = handle.includes('n') ? bottom : handle.includes('s') ? top : start.y + start.h / 2;
+  const maxW = handle.includes('w') ? anchorX : handle.includes('e') ? boundsWidth - anchorX : 2 * Math.min(anchorX, boundsWidth - anchorX);
+  const maxH = handle.includes('n') ? anchorY : handle.includes('s') ? boundsHeight - anchorY : 2 * Math.min(anchorY, boundsHeight - anchorY);
+  const scale = Math.min(1, maxW / w, maxH / h);
+  w *= scale;
+  h *= scale;
+  return {
+    ...start,
+    x: handle.includes('w') ? anchorX - w : handle.includes('e') ? anchorX : anchorX - w / 2,
+    y: handle.includes('n') ? anchorY - h : handle.includes('s') ? anchorY : anchorY - h / 2,
+    w,
+    h,
+  };
+};
+
+// Reshapes a crop to `aspect` around its centre, staying inside the image.
+export const lockCropToAspect = <T extends Rect>(crop: T, aspect: number, boundsWidth: number, boundsHeight: number): T => ({
+  ...crop,
+  ...fitRectToAspect(crop, aspect, boundsWidth, boundsHeight),
+});
+
+// A new crop in the middle of the image, a third of its size (or shaped to `aspect`).
+export const createCrop = (boundsWidth: number, boundsHeight: number, aspect?: number): CropRect => {
+  const crop = { id: crypto.randomUUID(), x: boundsWidth / 3, y: boundsHeight / 3, w: boundsWidth / 3, h: boundsHeight / 3 };
+  return aspect ? lockCropToAspect(crop, aspect, boundsWidth, boundsHeight) : crop;
+};
+
+// Crop positions are whole pixels for FFmpeg's crop filter. Rounding down keeps the crop inside the image.
+export const roundRect = <T extends Rect>(rect: T): T => ({
+  ...rect,
+  x: Math.floor(rect.x),
+  y: Math.floor(rect.y),
+  w: Math.floor(rect.w),
+  h: Math.floor(rect.h),
+});
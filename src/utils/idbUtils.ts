@@ -0,0 +1,56 @@
+// Wraps an IDBRequest in a Promise.
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Opens (and creates or upgrades, if needed) an IndexedDB database.
+export function openDatabase(
+  name: string,
+  version: number,
+  onUpgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => onUpgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Database "${name}" is blocked by another open tab.`));
+  });
+}
+
+export async function getRecord<T>(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisifyRequest(store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function getAllRecords<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisifyRequest(store.getAll() as IDBRequest<T[]>);
+}
+
+export async function countRecords(db: IDBDatabase, storeName: string): Promise<number> {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisifyRequest(store.count());
+}
+
+export async function putRecord<T>(db: IDBDatabase, storeName: string, value: T, key?: IDBValidKey): Promise<void> {
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisifyRequest(store.put(value, key));
+}
+
+export async function deleteRecord(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<void> {
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisifyRequest(store.delete(key));
+}
+
+export async function clearStore(db: IDBDatabase, storeName: string): Promise<void> {
+  const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+  await promisifyRequest(store.clear());
+}
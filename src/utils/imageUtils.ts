@@ -1,2 +1,286 @@
-// This file can be used for image utility functions in the future.
-export {};
+import { ReadingDirection } from '../types';
+
+// Loads an image from a URL (object URL or data URL) and resolves once it is decoded.
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image."));
+    img.src = src;
+  });
+};
+
+// Loads an image from a Blob through its own short-lived object URL, so it doesn't depend on URLs owned elsewhere.
+export const loadImageFromBlob = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Draws an image onto an offscreen canvas and returns its raw RGBA pixels.
+export const getImageData = (img: HTMLImageElement): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Could not create a 2D canvas context.");
+  }
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface GutterOptions {
+  tolerance: number; // Max per-channel deviation from the row's first pixel for it to count as uniform
+  minGutterHeight: number; // Minimum run of uniform rows (px) to be considered a gutter
+  minPanelHeight: number; // Slices shorter than this (px) are merged into their neighbour
+  sampleStep: number; // Only every Nth pixel in a row is inspected, for speed on huge strips
+}
+
+export const DEFAULT_GUTTER_OPTIONS: GutterOptions = {
+  tolerance: 12,
+  minGutterHeight: 24,
+  minPanelHeight: 120,
+  sampleStep: 4,
+};
+
+// A line (row or column) of a region is uniform when every sampled pixel is close to its first pixel.
+const isUniformLine = (
+  imageData: ImageData,
+  axis: 'row' | 'column',
+  index: number,
+  from: number,
+  to: number,
+  tolerance: number,
+  sampleStep: number
+): boolean => {
+  const { data, width } = imageData;
+  const offset = (pos: number) => (axis === 'row' ? (index * width + pos) : (pos * width + index)) * 4;
+  const first = offset(from);
+  const r = data[first], g = data[first + 1], b = data[first + 2];
+  for (let pos = from + sampleStep; pos < to; pos += sampleStep) {
+    const i = offset(pos);
+    if (
+      Math.abs(data[i] - r) > tolerance ||
+      Math.abs(data[i + 1] - g) > tolerance ||
+      Math.abs(data[i + 2] - b) > tolerance
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Finds runs of uniform rows (or columns) inside a region, as [start, end) pairs in image pixels.
+const findUniformRuns = (
+  imageData: ImageData,
+  region: ImageRegion,
+  axis: 'row' | 'column',
+  tolerance: number,
+  sampleStep: number
+): [number, number][] => {
+  const [start, end] = axis === 'row' ? [region.y, region.y + region.h] : [region.x, region.x + region.w];
+  const [from, to] = axis === 'row' ? [region.x, region.x + region.w] : [region.y, region.y + region.h];
+  const runs: [number, number][] = [];
+  let runStart = -1;
+  for (let i = start; i <= end; i++) {
+    const uniform = i < end && isUniformLine(imageData, axis, i, from, to, tolerance, sampleStep);
+    if (uniform && runStart === -1) {
+      runStart = i;
+    } else if (!uniform && runStart !== -1) {
+      runs.push([runStart, i]);
+      runStart = -1;
+    }
+  }
+  return runs;
+};
+
+// Detects horizontal gutters in a tall webtoon strip and returns suggested cut
+// positions (y coordinates in image pixels), placed in the middle of each gutter.
+export const detectGutterCuts = (imageData: ImageData, options: Partial<GutterOptions> = {}): number[] => {
+  const { tolerance, minGutterHeight, minPanelHeight, sampleStep } = { ...DEFAULT_GUTTER_OPTIONS, ...options };
+  const { width, height } = imageData;
+
+  const cuts = findUniformRuns(imageData, { x: 0, y: 0, w: width, h: height }, 'row', tolerance, sampleStep)
+    // Gutters touching the top or bottom edge are margins, not separators.
+    .filter(([runStart, runEnd]) => runEnd - runStart >= minGutterHeight && runStart > 0 && runEnd < height)
+    .map(([runStart, runEnd]) => Math.round((runStart + runEnd) / 2));
+
+  return mergeShortSlices(cuts, height, minPanelHeight);
+};
+
+// Drops cuts that would produce slices shorter than minPanelHeight.
+export const mergeShortSlices = (cuts: number[], height: number, minPanelHeight: number): number[] => {
+  const sorted = [...cuts].sort((a, b) => a - b);
+  const result: number[] = [];
+  let lastCut = 0;
+  for (const cut of sorted) {
+    if (cut - lastCut >= minPanelHeight && height - cut >= minPanelHeight) {
+      result.push(cut);
+      lastCut = cut;
+    }
+  }
+  return result;
+};
+
+// Crops a region of an image into a new image File, preserving the source format where possible.
+export const cropImageToFile = (
+  img: HTMLImageElement,
+  rect: ImageRegion,
+  fileName: string,
+  mimeType: string
+): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = rect.w;
+    canvas.height = rect.h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Could not create a 2D canvas context."));
+      return;
+    }
+    ctx.drawImage(img, rect.x, rect.y, rect.w, rect.h, 0, 0, rect.w, rect.h);
+    // Canvas can only encode a few formats; fall back to PNG for anything else (e.g. GIF, BMP).
+    const outputType = mimeType === 'image/jpeg' || mimeType === 'image/webp' ? mimeType : 'image/png';
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error("Could not encode cropped image."));
+        return;
+      }
+      resolve(new File([blob], fileName, { type: outputType }));
+    }, outputType, 0.95);
+  });
+};
+
+// Crops each region into its own file named after the source, e.g. "chapter1_panel_03.png".
+const cropRegionsToFiles = async (img: HTMLImageElement, regions: ImageRegion[], sourceFile: File, label: string): Promise<File[]> => {
+  const baseName = sourceFile.name.replace(/\.[^.]+$/, '');
+  const extension = sourceFile.type === 'image/jpeg' ? 'jpg' : sourceFile.type === 'image/webp' ? 'webp' : 'png';
+  const files: File[] = [];
+  for (let i = 0; i < regions.length; i++) {
+    const name = `${baseName}_${label}_${String(i + 1).padStart(3, '0')}.${extension}`;
+    files.push(await cropImageToFile(img, regions[i], name, sourceFile.type));
+  }
+  return files;
+};
+
+// Splits an image into horizontal slices at the given cut positions.
+export const sliceImageAtCuts = (img: HTMLImageElement, cuts: number[], sourceFile: File): Promise<File[]> => {
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const boundaries = [0, ...[...cuts].sort((a, b) => a - b), height];
+  const regions: ImageRegion[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const h = boundaries[i + 1] - boundaries[i];
+    if (h > 0) regions.push({ x: 0, y: boundaries[i], w: width, h });
+  }
+  return cropRegionsToFiles(img, regions, sourceFile, 'slice');
+};
+
+// Webtoon strips are far taller than a normal page; anything beyond this ratio is offered for slicing.
+export const LONG_STRIP_ASPECT_RATIO = 2.5;
+
+export const isLongStrip = (img: HTMLImageElement): boolean =>
+  img.naturalHeight / img.naturalWidth >= LONG_STRIP_ASPECT_RATIO;
+
+// Shrinks a region to exclude uniform margins along its edges.
+const trimMargins = (imageData: ImageData, region: ImageRegion, tolerance: number, sampleStep: number): ImageRegion => {
+  let { x, y, w, h } = region;
+  const rows = findUniformRuns(imageData, region, 'row', tolerance, sampleStep);
+  if (rows.length && rows[0][0] === y) { h -= rows[0][1] - y; y = rows[0][1]; }
+  if (rows.length && rows[rows.length - 1][1] === region.y + region.h) { h -= rows[rows.length - 1][1] - rows[rows.length - 1][0]; }
+  if (w <= 0 || h <= 0) return region;
+
+  const cols = findUniformRuns(imageData, { x, y, w, h }, 'column', tolerance, sampleStep);
+  if (cols.length && cols[0][0] === x) { w -= cols[0][1] - x; x = cols[0][1]; }
+  if (cols.length && cols[cols.length - 1][1] === region.x + region.w) { w -= cols[cols.length - 1][1] - cols[cols.length - 1][0]; }
+  if (w <= 0 || h <= 0) return region;
+
+  return { x, y, w, h };
+};
+
+// Splits a region into the bands separated by interior gutters along one axis.
+const splitAlongGutters = (
+  imageData: ImageData,
+  region: ImageRegion,
+  axis: 'row' | 'column',
+  options: GutterOptions
+): ImageRegion[] => {
+  const { tolerance, minGutterHeight, minPanelHeight, sampleStep } = options;
+  const [start, end] = axis === 'row' ? [region.y, region.y + region.h] : [region.x, region.x + region.w];
+  const gutters = findUniformRuns(imageData, region, axis, tolerance, sampleStep)
+    .filter(([runStart, runEnd]) => runEnd - runStart >= minGutterHeight && runStart > start && runEnd < end);
+
+  // A band shorter than minPanelHeight joins the previous band (the next one, if it comes first), gutter included.
+  const spans: [number, number][] = [];
+  let bandStart = start;
+  for (const [runStart, runEnd] of [...gutters, [end, end] as [number, number]]) {
+    const last = spans[spans.length - 1];
+    if (last && (runStart - bandStart < minPanelHeight || last[1] - last[0] < minPanelHeight)) last[1] = runStart;
+    else spans.push([bandStart, runStart]);
+    bandStart = runEnd;
+  }
+  return spans.map(([from, to]) => axis === 'row'
+    ? { x: region.x, y: from, w: region.w, h: to - from }
+    : { x: from, y: region.y, w: to - from, h: region.h });
+};
+
+// Pages are rarely nested deeper than tiers -> panels -> sub-panels.
+const MAX_LAYOUT_DEPTH = 4;
+
+// Recursive XY-cut: split into horizontal tiers first (read top to bottom), then split each
+// tier into columns ordered by the reading direction, and recurse into every piece.
+const cutRegion = (
+  imageData: ImageData,
+  region: ImageRegion,
+  direction: ReadingDirection,
+  options: GutterOptions,
+  depth: number
+): ImageRegion[] => {
+  const trimmed = trimMargins(imageData, region, options.tolerance, options.sampleStep);
+  if (depth >= MAX_LAYOUT_DEPTH) return [trimmed];
+
+  const tiers = splitAlongGutters(imageData, trimmed, 'row', options);
+  if (tiers.length > 1) {
+    return tiers.flatMap(tier => cutRegion(imageData, tier, direction, options, depth + 1));
+  }
+  if (direction === 'webtoon') return [trimmed];
+
+  const columns = splitAlongGutters(imageData, trimmed, 'column', options);
+  if (columns.length > 1) {
+    const ordered = direction === 'rtl' ? columns.reverse() : columns;
+    return ordered.flatMap(column => cutRegion(imageData, column, direction, options, depth + 1));
+  }
+  return [trimmed];
+};
+
+// Page layouts have tighter gutters and smaller panels than webtoon strips.
+export const DEFAULT_PAGE_LAYOUT_OPTIONS: GutterOptions = {
+  tolerance: 16,
+  minGutterHeight: 6,
+  minPanelHeight: 80,
+  sampleStep: 2,
+};
+
+// Finds the panels on a comic/manga page and returns them in reading order.
+export const detectPanelLayout = (
+  imageData: ImageData,
+  direction: ReadingDirection,
+  options: Partial<GutterOptions> = {}
+): ImageRegion[] => {
+  const { width, height } = imageData;
+  return cutRegion(imageData, { x: 0, y: 0, w: width, h: height }, direction, { ...DEFAULT_PAGE_LAYOUT_OPTIONS, ...options }, 0);
+};
+
+// Crops each panel region of a page into its own image file, keeping the given order.
+export const cropImageRegions = (img: HTMLImageElement, regions: ImageRegion[], sourceFile: File): Promise<File[]> =>
+  cropRegionsToFiles(img, regions, sourceFile, 'panel');
@@ -0,0 +1,114 @@
+import { AspectRatioOption, CropLayoutOption, EditedClip } from '../types';
+
+// Longest cross-fade between two shots of a clip, in seconds.
+export const SHOT_FADE_DURATION = 0.3;
+
+export const LAYOUT_OPTIONS: { value: CropLayoutOption, label: string }[] = [
+  { value: 'side_by_side', label: 'Side by side' },
+  { value: 'stacked', label: 'Stacked' },
+  { value: 'grid', label: 'Grid' },
+  { value: 'pip', label: 'Picture-in-picture' },
+  { value: 'sequence', label: 'One after another' },
+];
+
+// An area of the output frame, in pixels.
+export interface LayoutCell {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Share of the frame's shorter side taken by each picture-in-picture inset, and the gap around it.
+const PIP_INSET_SIZE = 0.4;
+const PIP_MARGIN = 0.03;
+// Most insets picture-in-picture stacks up the frame; clips with more crops use the grid instead.
+const PIP_MAX_INSETS = 3;
+const MIN_CELL_SIZE = 16;
+
+// The layout actually used for `cropCount` crops: picture-in-picture falls back to the grid when there are too many.
+const resolveLayout = (layout: CropLayoutOption, cropCount: number): CropLayoutOption =>
+  layout === 'pip' && cropCount > PIP_MAX_INSETS ? 'grid' : layout;
+
+export const getClipLayout = (clip: Pick<EditedClip, 'layout' | 'crops'>, projectLayout: CropLayoutOption): CropLayoutOption =>
+  resolveLayout(clip.layout ?? projectLayout, clip.crops.length);
+
+export const getAspectRatioValue = (aspectRatio: AspectRatioOption): number => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+// Where each crop goes in a `width` x `height` frame. For picture-in-picture the first cell is the whole frame,
+// filled with the whole panel, and one inset per crop follows, stacked up from the bottom-right corner.
+// The sequence layout shows every crop full frame, one at a time.
+export const getLayoutCells = (layout: CropLayoutOption, cropCount: number, width: number, height: number): LayoutCell[] => {
+  const count = Math.max(1, cropCount);
+  layout = resolveLayout(layout, cropCount);
+  const full = { x: 0, y: 0, w: width, h: height };
+  const grid = (columns: number, rows: number) => Array.from({ length: count }, (_, i) => ({
+    x: Math.round(((i % columns) * width) / columns),
+    y: Math.round((Math.floor(i / columns) * height) / rows),
+    w: Math.round(width / columns),
+    h: Math.round(height / rows),
+  }));
+
+  switch (layout) {
+    case 'side_by_side': return grid(count, 1);
+    case 'stacked': return grid(1, count);
+    case 'grid': {
+      const columns = Math.ceil(Math.sqrt(count));
+      return grid(columns, Math.ceil(count / columns));
+    }
+    case 'pip': {
+      const margin = Math.round(Math.min(width, height) * PIP_MARGIN);
+      const size = Math.max(MIN_CELL_SIZE, Math.round(Math.min(Math.min(width, height) * PIP_INSET_SIZE, (height - margin * (cropCount + 1)) / Math.max(1, cropCount))));
+      const insets = Array.from({ length: cropCount }, (_, i) => ({
+        x: width - margin - size,
+        y: height - (margin + size) * (i + 1),
+        w: size,
+        h: size,
+      }));
+      return [full, ...insets];
+    }
+    default: return Array.from({ length: count }, () => full);
+  }
+};
+
+// The shape (width / height) of the cell each crop fills, for a frame with the given aspect ratio.
+export const getCropAspectRatios = (layout: CropLayoutOption, cropCount: number, aspect: number): number[] => {
+  layout = resolveLayout(layout, cropCount);
+  const cells = getLayoutCells(layout, cropCount, aspect * 1000, 1000);
+  // Picture-in-picture insets follow the whole-panel background cell.
+  return Array.from({ length: cropCount }, (_, i) => {
+    const cell = cells[layout === 'pip' ? i + 1 : i];
+    return cell.w / cell.h;
+  });
+};
+
+// The parts of the panel drawn into the cells from getLayoutCells, in the same order. A clip without crops
+// shows the whole panel.
+export const getLayoutSources = <T extends LayoutCell>(layout: CropLayoutOption, crops: T[], imageWidth: number, imageHeight: number): LayoutCell[] => {
+  const wholePanel = { x: 0, y: 0, w: imageWidth, h: imageHeight };
+  const sources: LayoutCell[] = crops.length > 0 ? crops : [wholePanel];
+  return resolveLayout(layout, crops.length) === 'pip' ? [wholePanel, ...sources] : sources;
+};
+
+// Fits a `contentWidth` x `contentHeight` picture inside a cell without cropping it, centred.
+export const fitInCell = (cell: LayoutCell, contentWidth: number, contentHeight: number): LayoutCell => {
+  const scale = Math.min(cell.w / contentWidth, cell.h / contentHeight);
+  const w = contentWidth * scale;
+  const h = contentHeight * scale;
+  return { x: cell.x + (cell.w - w) / 2, y: cell.y + (cell.h - h) / 2, w, h };
+};
+
+// How long each crop of a clip is shown in the sequence layout: the clip's duration split by the crops' weights.
+export const getShotDurations = (clip: Pick<EditedClip, 'duration' | 'crops'>): number[] => {
+  const weights = clip.crops.map(crop => Math.max(0, crop.weight ?? 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) return weights.map(() => clip.duration / weights.length);
+  return weights.map(weight => (clip.duration * weight) / totalWeight);
+};
+
+// The cross-fade used between shots, shortened so it never takes more than half of a shot.
+export const getShotFadeDuration = (shotDurations: number[]): number =>
+  Math.min(SHOT_FADE_DURATION, ...shotDurations.map(duration => duration / 2));
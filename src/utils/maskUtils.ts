@@ -0,0 +1,70 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Adds a brush stroke from `from` to `to` to the current path as a row of overlapping circles,
+// so it can be filled or used as a clipping region.
+export const addBrushStroke = (ctx: CanvasRenderingContext2D, from: Point, to: Point, radius: number) => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / (radius / 2)));
+  for (let i = 0; i <= steps; i++) {
+    const x = from.x + ((to.x - from.x) * i) / steps;
+    const y = from.y + ((to.y - from.y) * i) / steps;
+    ctx.moveTo(x + radius, y);
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+  }
+};
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not create a 2D canvas context.");
+  }
+  return { canvas, ctx };
+};
+
+// Whether anything has been painted on an overlay (a canvas that is transparent where unpainted).
+export const isOverlayEmpty = (overlay: HTMLCanvasElement): boolean => {
+  const ctx = overlay.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, overlay.width, overlay.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Turns a painted overlay into the black-and-white mask the inpainting model expects: white where painted.
+export const overlayToMask = (overlay: HTMLCanvasElement): HTMLCanvasElement => {
+  const { canvas: white, ctx: whiteCtx } = createCanvas(overlay.width, overlay.height);
+  whiteCtx.drawImage(overlay, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#ffffff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  const { canvas: mask, ctx } = createCanvas(overlay.width, overlay.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.drawImage(white, 0, 0);
+  return mask;
+};
+
+// Draws `source`, scaled to the target's size, onto `target` only where `overlay` is painted.
+// Used to keep a model's changes inside the mask, since it may touch pixels outside it.
+export const drawThroughOverlay = (target: HTMLCanvasElement, source: CanvasImageSource, overlay: HTMLCanvasElement) => {
+  const { canvas: masked, ctx } = createCanvas(target.width, target.height);
+  ctx.drawImage(source, 0, 0, target.width, target.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(overlay, 0, 0, target.width, target.height);
+  target.getContext('2d')?.drawImage(masked, 0, 0);
+};
+
+// Encodes a canvas as an inline PNG, lossless so repeated edits don't degrade the panel.
+export const canvasToBase64Png = (canvas: HTMLCanvasElement): { data: string, mimeType: string } => {
+  const dataUrl = canvas.toDataURL('image/png');
+  return { data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/png' };
+};
@@ -0,0 +1,126 @@
+import { ScriptSegment } from '../types';
+
+// Sentences end at terminal punctuation (including CJK), optionally followed by closing quotes or brackets.
+const SENTENCE_PATTERN = /[^.!?。！？]+(?:[.!?。！？]+["'”’)\]]*|$)/g;
+
+// Splits text longer than `maxChars` at word boundaries, hard-splitting words that are still too long.
+const splitAtWords = (text: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (let start = 0; start < word.length; start += maxChars) {
+      const part = word.slice(start, start + maxChars);
+      if (current && current.length + 1 + part.length > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Breaks a paragraph into sentence-sized pieces no longer than `maxChars`.
+const splitParagraph = (paragraph: string, maxChars: number): string[] => {
+  if (paragraph.length <= maxChars) return [paragraph];
+  const sentences = (paragraph.match(SENTENCE_PATTERN) ?? [paragraph]).map(s => s.trim()).filter(Boolean);
+  return sentences.flatMap(sentence => sentence.length <= maxChars ? [sentence] : splitAtWords(sentence, maxChars));
+};
+
+// Splits a script into chunks of at most `maxChars`, preferring paragraph boundaries, then sentences, then words.
+// Short paragraphs are packed together so long scripts need as few requests as possible.
+export const splitScriptIntoChunks = (script: string, maxChars: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  const paragraphs = script.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  for (const paragraph of paragraphs) {
+    const pieces = splitParagraph(paragraph, maxChars);
+    pieces.forEach((piece, index) => {
+      // Keep the paragraph break when packing, so the narration pauses in the same places.
+      const separator = index === 0 ? '\n\n' : ' ';
+      if (current && current.length + separator.length + piece.length > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? current + separator + piece : piece;
+    });
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// A line such as "[Panel 3]" starts the narration for that panel in a segmented script.
+const SEGMENT_MARKER = /^[ \t]*\[Panel[ \t]+(\d+)\][ \t]*$/gim;
+
+// Parses a segmented script into its segments. Returns null for free-form scripts without markers.
+// Text before the first marker belongs to panel 1; markers without any text are dropped.
+export const parseScriptSegments = (script: string): ScriptSegment[] | null => {
+  const markers = [...script.matchAll(SEGMENT_MARKER)];
+  if (markers.length === 0) return null;
+
+  const segments: ScriptSegment[] = [];
+  const leading = script.slice(0, markers[0].index).trim();
+  if (leading) segments.push({ panel: 1, text: leading });
+
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : script.length;
+    const text = script.slice(start, end).trim();
+    if (text) segments.push({ panel: Number(marker[1]), text });
+  });
+  return segments;
+};
+
+// Writes segments back in the marker format understood by `parseScriptSegments`.
+export const formatScriptSegments = (segments: ScriptSegment[]): string => {
+  return segments.map(segment => `[Panel ${segment.panel}]\n${segment.text.trim()}`).join('\n\n');
+};
+
+// Spreads the paragraphs of free-form text evenly over `panelCount` panels starting at `firstPanel`.
+// It is a starting point for the author to correct, not an alignment.
+export const distributeParagraphs = (text: string, firstPanel: number, panelCount: number): ScriptSegment[] => {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const segments: ScriptSegment[] = [];
+  paragraphs.forEach((paragraph, index) => {
+    const panel = firstPanel + Math.floor((index * panelCount) / paragraphs.length);
+    const last = segments[segments.length - 1];
+    if (last && last.panel === panel) {
+      last.text += `\n\n${paragraph}`;
+    } else {
+      segments.push({ panel, text: paragraph });
+    }
+  });
+  return segments;
+};
+
+// Replaces the segments of panels `start` to `end` with `replacement`, where the old ones were (or in panel
+// order if there were none). Segments of other panels are left untouched.
+export const replacePanelRangeSegments = (
+  segments: ScriptSegment[],
+  start: number,
+  end: number,
+  replacement: ScriptSegment[]
+): ScriptSegment[] => {
+  const inRange = (segment: ScriptSegment) => segment.panel >= start && segment.panel <= end;
+  let insertAt = segments.findIndex(inRange);
+  if (insertAt === -1) insertAt = segments.findIndex(segment => segment.panel > end);
+  if (insertAt === -1) insertAt = segments.length;
+  return [
+    ...segments.slice(0, insertAt).filter(segment => !inRange(segment)),
+    ...replacement,
+    ...segments.slice(insertAt).filter(segment => !inRange(segment)),
+  ];
+};
+
+// Turns a free-form script into a segmented one.
+export const segmentFreeFormScript = (script: string, panelCount: number): string => {
+  return formatScriptSegments(distributeParagraphs(script, 1, panelCount));
+};
+
+// The narration alone, without panel markers, e.g. for exporting as plain text.
+export const scriptToPlainText = (script: string): string => {
+  const segments = parseScriptSegments(script);
+  return segments ? segments.map(segment => segment.text.trim()).join('\n\n') : script.trim();
+};
@@ -0,0 +1,166 @@
+import { CropRect, EditedClip } from '../types';
+
+// Everything a clip takes from the panel it shows.
+type PanelEdits = Pick<EditedClip, 'panelId' | 'inpaintedImageBase64' | 'mimeType' | 'crops' | 'inpaintChoice' | 'rejectedInpaint'>;
+
+// Shortest clip the timeline lets you create, in seconds.
+export const MIN_CLIP_DURATION = 0.2;
+
+// The renderer plays clips back to back, so start times always follow from the durations.
+export const layoutClips = (clips: EditedClip[]): EditedClip[] => {
+  let time = 0;
+  return clips.map(clip => {
+    const laidOut = { ...clip, startTime: time };
+    time += clip.duration;
+    return laidOut;
+  });
+};
+
+export const getClipsEndTime = (clips: EditedClip[]): number =>
+  clips.reduce((sum, clip) => sum + clip.duration, 0);
+
+// Moves the boundary before clip `boundary` to `time`, trading duration between its neighbours.
+// `boundary === clips.length` is the end of the last clip, which only changes that clip's length.
+export const moveClipBoundary = (clips: EditedClip[], boundary: number, time: number): EditedClip[] => {
+  if (boundary < 1 || boundary > clips.length) return clips;
+  const laidOut = layoutClips(clips);
+  const before = laidOut[boundary - 1];
+  const after = laidOut[boundary];
+
+  const min = before.startTime + MIN_CLIP_DURATION;
+  const max = after ? after.startTime + after.duration - MIN_CLIP_DURATION : Infinity;
+  if (min > max) return clips;
+  const clamped = Math.min(max, Math.max(min, time));
+
+  const updated = [...laidOut];
+  updated[boundary - 1] = { ...before, duration: clamped - before.startTime };
+  if (after) {
+    updated[boundary] = { ...after, duration: after.startTime + after.duration - clamped };
+  }
+  return layoutClips(updated);
+};
+
+// Copies a clip with fresh crop ids, so the copies can be edited independently.
+const cloneClip = (clip: EditedClip, duration: number): EditedClip => ({
+  ...clip,
+  duration,
+  crops: clip.crops.map(crop => ({ ...crop, id: crypto.randomUUID() })),
+});
+
+// Splits clip `index` at `time` (seconds from the start of the video) into two clips showing the same panel.
+export const splitClip = (clips: EditedClip[], index: number, time: number): EditedClip[] => {
+  const laidOut = layoutClips(clips);
+  const clip = laidOut[index];
+  if (!clip) return clips;
+  const firstDuration = time - clip.startTime;
+  const secondDuration = clip.duration - firstDuration;
+  if (firstDuration < MIN_CLIP_DURATION || secondDuration < MIN_CLIP_DURATION) return clips;
+  return layoutClips([
+    ...laidOut.slice(0, index),
+    { ...clip, duration: firstDuration },
+    cloneClip(clip, secondDuration),
+    ...laidOut.slice(index + 1),
+  ]);
+};
+
+// Inserts a copy of clip `index` right after it. Later clips move back by its duration.
+export const duplicateClip = (clips: EditedClip[], index: number): EditedClip[] => {
+  const clip = clips[index];
+  if (!clip) return clips;
+  return layoutClips([...clips.slice(0, index + 1), cloneClip(clip, clip.duration), ...clips.slice(index + 1)]);
+};
+
+// Shows a different panel in clip `index`, keeping its timing.
+export const swapClipPanel = (
+  clips: EditedClip[],
+  index: number,
+  source: PanelEdits
+): EditedClip[] => {
+  const clip = clips[index];
+  if (!clip) return clips;
+  const updated = [...clips];
+  updated[index] = {
+    ...clip,
+    panelId: source.panelId,
+    inpaintedImageBase64: source.inpaintedImageBase64,
+    mimeType: source.mimeType,
+    crops: source.crops.map(crop => ({ ...crop, id: crypto.randomUUID() })),
+    inpaintChoice: source.inpaintChoice,
+    rejectedInpaint: source.rejectedInpaint,
+    camera: undefined, // Planned for the previous image
+  };
+  return updated;
+};
+
+// Applies new edits for a panel to every clip that shows it, e.g. after re-running the AI on it.
+export const replacePanelInClips = (
+  clips: EditedClip[],
+  source: PanelEdits
+): EditedClip[] => {
+  return clips.reduce((updated, clip, index) => (clip.panelId === source.panelId ? swapClipPanel(updated, index, source) : updated), clips);
+};
+
+// Shows a new image for a panel in every clip that uses it, keeping each clip's crops.
+// The image must have the same size as the one it replaces, since the crops are in its pixel coordinates.
+// A hand-edited image counts as the accepted edit for the panel.
+export const setPanelImageInClips = (clips: EditedClip[], panelId: string, imageBase64: string, mimeType: string): EditedClip[] =>
+  clips.map(clip => (clip.panelId === panelId
+    ? { ...clip, inpaintedImageBase64: imageBase64, mimeType, inpaintChoice: 'accepted', rejectedInpaint: undefined }
+    : clip));
+
+const scaleRect = <T extends Omit<CropRect, 'id'>>(rect: T, scale: { x: number, y: number }): T => ({
+  ...rect,
+  x: Math.round(rect.x * scale.x),
+  y: Math.round(rect.y * scale.y),
+  w: Math.round(rect.w * scale.x),
+  h: Math.round(rect.h * scale.y),
+});
+
+// Converts a clip's crops and camera keyframes to the pixel coordinates of an image of a different size.
+const scaleFraming = (clip: EditedClip, scale: { x: number, y: number }): Pick<EditedClip, 'crops' | 'camera'> => ({
+  crops: clip.crops.map(crop => scaleRect(crop, scale)),
+  camera: clip.camera?.map(keyframe => ({ ...keyframe, rect: scaleRect(keyframe.rect, scale) })),
+});
+
+// Shows the original panel instead of the text-removed image in every clip of the panel, setting the
+// text-removed image aside. `scale` converts crops and camera keyframes from the text-removed image's size to the original's.
+export const rejectPanelInpaint = (
+  clips: EditedClip[],
+  panelId: string,
+  original: { imageBase64: string, mimeType: string },
+  scale: { x: number, y: number }
+): EditedClip[] =>
+  clips.map(clip => (clip.panelId !== panelId || clip.inpaintChoice === 'rejected' ? clip : {
+    ...clip,
+    inpaintedImageBase64: original.imageBase64,
+    mimeType: original.mimeType,
+    ...scaleFraming(clip, scale),
+    inpaintChoice: 'rejected',
+    rejectedInpaint: { imageBase64: clip.inpaintedImageBase64, mimeType: clip.mimeType },
+  }));
+
+// Keeps the text-removed image for a panel, bringing it back if it was rejected.
+// `scale` converts crops from the original's size back to the text-removed image's.
+export const acceptPanelInpaint = (clips: EditedClip[], panelId: string, scale: { x: number, y: number }): EditedClip[] =>
+  clips.map(clip => {
+    if (clip.panelId !== panelId) return clip;
+    if (clip.inpaintChoice !== 'rejected' || !clip.rejectedInpaint) return { ...clip, inpaintChoice: 'accepted' };
+    return {
+      ...clip,
+      inpaintedImageBase64: clip.rejectedInpaint.imageBase64,
+      mimeType: clip.rejectedInpaint.mimeType,
+      ...scaleFraming(clip, scale),
+      inpaintChoice: 'accepted',
+      rejectedInpaint: undefined,
+    };
+  });
+
+// Index of the clip playing at `time`, or -1 past the end.
+export const findClipAtTime = (clips: EditedClip[], time: number): number => {
+  let start = 0;
+  for (let i = 0; i < clips.length; i++) {
+    if (time < start + clips[i].duration) return i;
+    start += clips[i].duration;
+  }
+  return -1;
+};
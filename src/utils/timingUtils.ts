@@ -0,0 +1,95 @@
+import { PanelTiming } from '../types';
+
+export interface TimingOptions {
+  minDuration: number; // Shortest time a panel stays on screen, in seconds
+  ensureAllPanels: boolean; // Give panels that never appear a share of their neighbour's time
+}
+
+export const DEFAULT_TIMING_OPTIONS: TimingOptions = {
+  minDuration: 1,
+  ensureAllPanels: true,
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+// Repairs a timing list so every entry produces a visible clip: valid panel numbers, start times that
+// increase by at least the minimum duration, and nothing past the end of the audio.
+// Returns the repaired list with a human readable note for every change.
+export const sanitizeTimings = (
+  timings: PanelTiming[],
+  panelCount: number,
+  audioDuration: number,
+  options: TimingOptions = DEFAULT_TIMING_OPTIONS
+): { timings: PanelTiming[], repairs: string[] } => {
+  const repairs: string[] = [];
+
+  let result = timings.filter(timing => {
+    if (!Number.isInteger(timing.panel) || timing.panel < 1 || timing.panel > panelCount) {
+      repairs.push(`Removed a timing for panel ${timing.panel}, which doesn't exist (there are ${panelCount} panels).`);
+      return false;
+    }
+    if (!Number.isFinite(timing.startTime)) {
+      repairs.push(`Removed a timing for panel ${timing.panel} without a valid start time.`);
+      return false;
+    }
+    return true;
+  }).map(timing => ({ ...timing }));
+
+  if (result.length === 0) {
+    if (timings.length > 0) repairs.push('No usable timings were left, so the panels are spread evenly over the narration.');
+    result = Array.from({ length: panelCount }, (_, i) => ({ panel: i + 1, startTime: (audioDuration / panelCount) * i }));
+  }
+
+  const inserted = new Set<PanelTiming>();
+  if (options.ensureAllPanels) {
+    for (let panel = 1; panel <= panelCount; panel++) {
+      if (result.some(timing => timing.panel === panel)) continue;
+      // Show the missing panel halfway through the closest earlier panel's time on screen.
+      let index = -1;
+      result.forEach((timing, i) => {
+        if (timing.panel < panel) index = i;
+      });
+      const start = index >= 0 ? result[index].startTime : 0;
+      const end = index + 1 < result.length ? result[index + 1].startTime : audioDuration;
+      const timing = { panel, startTime: index >= 0 ? (start + end) / 2 : start };
+      inserted.add(timing);
+      result.splice(index + 1, 0, timing);
+      repairs.push(index >= 0
+        ? `Panel ${panel} never appeared; it now shares time with panel ${result[index].panel}.`
+        : `Panel ${panel} never appeared; it now opens the video.`);
+    }
+  }
+
+  // If the audio is too short for every panel to get the minimum, share it out evenly instead.
+  let minDuration = options.minDuration;
+  if (result.length * minDuration > audioDuration) {
+    minDuration = audioDuration / result.length;
+    repairs.push(`The narration is too short to show ${result.length} panels for ${formatSeconds(options.minDuration)} each; each gets at least ${formatSeconds(minDuration)}.`);
+  }
+
+  const original = result.map(timing => timing.startTime);
+  result[0].startTime = 0;
+  // Forward pass: each panel starts at least `minDuration` after the previous one.
+  for (let i = 1; i < result.length; i++) {
+    result[i].startTime = Math.max(result[i].startTime, result[i - 1].startTime + minDuration);
+  }
+  // Backward pass: leave room for the panels after it before the audio ends.
+  for (let i = result.length - 1; i >= 1; i--) {
+    const latest = audioDuration - (result.length - i) * minDuration;
+    const next = i + 1 < result.length ? result[i + 1].startTime - minDuration : latest;
+    result[i].startTime = Math.min(result[i].startTime, latest, next);
+  }
+
+  result.forEach((timing, i) => {
+    if (inserted.has(timing) || Math.abs(timing.startTime - original[i]) <= 0.005) return;
+    if (i === 0) {
+      repairs.push(`Panel ${timing.panel} now starts at 0.00s instead of ${formatSeconds(original[i])}, so the video doesn't open on a blank frame.`);
+    } else if (original[i] >= audioDuration) {
+      repairs.push(`Moved panel ${timing.panel} from ${formatSeconds(original[i])}, past the end of the narration, to ${formatSeconds(timing.startTime)}.`);
+    } else {
+      repairs.push(`Moved panel ${timing.panel} from ${formatSeconds(original[i])} to ${formatSeconds(timing.startTime)} so it stays on screen for at least ${formatSeconds(minDuration)}.`);
+    }
+  });
+
+  return { timings: result, repairs };
+};
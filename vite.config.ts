@@ -18,7 +18,11 @@ export default defineConfig(({ mode }) => {
       exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
     },
     define: {
-      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY),
+      // Default AI backend: 'gemini', 'proxy' or 'mock' for a deterministic offline backend.
+      // API keys are entered by each user in the app's settings and never bundled.
+      'process.env.AI_PROVIDER': JSON.stringify(env.VITE_AI_PROVIDER),
+      // Default URL for the 'proxy' provider (see server/).
+      'process.env.AI_PROXY_URL': JSON.stringify(env.VITE_AI_PROXY_URL),
     }
   }
 });
\ No newline at end of file